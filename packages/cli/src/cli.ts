@@ -1,26 +1,77 @@
 import yargs from "yargs";
 import fs from "fs";
-import { ModuleRegistry, normalize } from "wgsl-linker";
+import path from "path";
+import {
+  ModuleRegistry,
+  normalize,
+  rootRelativePath,
+  sourceMappingURLComment,
+  sourceMapV3,
+  structTypes,
+} from "wgsl-linker";
 import { createTwoFilesPatch } from "diff";
 import { TypeRefElem } from "../../linker/src/AbstractElems.js";
+import { loadImports } from "./loadImports.js";
 
 type CliArgs = ReturnType<typeof parseArgs>;
 let argv: CliArgs;
 
+/** file watchers, by file path (in watch mode) */
+const watchers = new Map<string, fs.FSWatcher>();
+
+/** delay after a file change before relinking (to collect related changes) */
+const watchDelay = 50;
+
 export async function cli(rawArgs: string[]): Promise<void> {
   argv = parseArgs(rawArgs);
   const files = argv.files as string[];
-  argv.separately ? linkSeparately(files) : linkNormally(files);
+  if (argv.separately) {
+    linkSeparately(files);
+  } else if (argv.watch) {
+    await watchLink(files);
+  } else {
+    await linkNormally(files);
+  }
+}
+
+/** stop watching files (started by the --watch option) */
+export function stopWatching(): void {
+  watchers.forEach((w) => w.close());
+  watchers.clear();
 }
 
 // eslint-disable-next-line @typescript-eslint/explicit-function-return-type
 function parseArgs(args: string[]) {
   return yargs(args)
-    .command("$0 <files...>", "root wgsl file followed by any library wgsl files")
+    .command(
+      "$0 <files...>",
+      "root wgsl file followed by any library wgsl files (files reached through imports are found automatically)"
+    )
     .option("define", {
       type: "array",
       describe: "definitions for preprocessor and linking",
     })
+    .option("sourcemap", {
+      requiresArg: true,
+      type: "string",
+      describe: "write a source map (v3 json) for the linked result",
+    })
+    .option("emitTypes", {
+      requiresArg: true,
+      type: "string",
+      describe:
+        "write TypeScript interfaces and buffer pack/unpack functions for the linked structs (.ts or .js)",
+    })
+    .option("out", {
+      requiresArg: true,
+      type: "string",
+      describe: "write the linked result to a file (rather than to stdout)",
+    })
+    .option("watch", {
+      type: "boolean",
+      default: false,
+      describe: "relink when the root or library files change",
+    })
     .option("baseDir", {
       requiresArg: true,
       type: "string",
@@ -41,8 +92,8 @@ function parseArgs(args: string[]) {
     .option("diff", {
       type: "boolean",
       default: false,
-      hidden: true,
-      describe: "show comparison with src file",
+      describe:
+        "show comparison with src file (or with the previous result in watch mode)",
     })
     .option("emit", {
       type: "boolean",
@@ -54,14 +105,11 @@ function parseArgs(args: string[]) {
     .parseSync();
 }
 
-function linkNormally(paths: string[]): void {
-  const pathAndTexts = paths.map((f) => {
-    const text = fs.readFileSync(f, { encoding: "utf8" });
-    const basedPath = normalize(rmBaseDirPrefix(f));
-    return [basedPath, text];
-  });
+async function linkNormally(paths: string[]): Promise<void> {
+  const { files, libs } = await loadImports(paths, externalDefines());
+  const pathAndTexts = readFiles(files);
   const wgsl = Object.fromEntries(pathAndTexts);
-  const registry = new ModuleRegistry({ wgsl, conditions: externalDefines() });
+  const registry = new ModuleRegistry({ wgsl, libs });
   const [srcPath, srcText] = pathAndTexts[0];
   doLink(srcPath, registry, srcText);
 }
@@ -75,17 +123,168 @@ function linkSeparately(paths: string[]): void {
   });
 }
 
+/** link, and then relink incrementally whenever one of the files
+ * (or a file reached through imports) changes */
+async function watchLink(paths: string[]): Promise<void> {
+  const { files, libs } = await loadImports(paths, externalDefines());
+  const pathAndTexts = readFiles(files);
+  const wgsl = Object.fromEntries(pathAndTexts);
+  const registry = new ModuleRegistry({ wgsl, libs });
+  const [srcPath] = pathAndTexts[0];
+  const changed = new Set<string>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let previous: string | undefined;
+
+  relink();
+  files.forEach(watch);
+  console.error(`watching ${files.length} files`);
+
+  function watch(file: string): void {
+    watchers.get(file)?.close();
+    const watcher = fs.watch(file, () => fileChanged(file));
+    watchers.set(file, watcher);
+  }
+
+  /** watch the directory of a removed file, to relink if the file is recreated */
+  function watchRemoved(file: string): void {
+    watchers.get(file)?.close();
+    const fileName = path.basename(file);
+    const watcher = fs.watch(path.dirname(file), (e, changedName) => {
+      const named = !changedName || changedName === fileName;
+      if (named && fs.existsSync(file)) fileChanged(file);
+    });
+    watchers.set(file, watcher);
+  }
+
+  function fileChanged(file: string): void {
+    changed.add(file);
+    clearTimeout(timer);
+    timer = setTimeout(update, watchDelay);
+  }
+
+  /** reload the changed files and relink
+   * (called from a timer, so problems are reported here rather than thrown) */
+  async function update(): Promise<void> {
+    if (!watchers.size) return; // stopped
+    try {
+      changed.forEach((file) => {
+        const basedPath = normalize(rmBaseDirPrefix(file));
+        if (fs.existsSync(file)) {
+          const text = fs.readFileSync(file, { encoding: "utf8" });
+          registry.updateModule(basedPath, text);
+          watch(file); // rewatch, in case the file was replaced
+        } else {
+          registry.removeModule(basedPath);
+          watchRemoved(file);
+          console.error(`${file} removed`);
+        }
+      });
+      changed.clear();
+      await loadNewImports().catch(reportError);
+      relink();
+    } catch (e) {
+      reportError(e);
+    }
+  }
+
+  /** register and watch any newly imported files */
+  async function loadNewImports(): Promise<void> {
+    const loaded = await loadImports(paths, externalDefines());
+    const newFiles = loaded.files.filter((f) => !watchers.has(f));
+    readFiles(newFiles).forEach(([basedPath, text]) =>
+      registry.updateModule(basedPath, text)
+    );
+    newFiles.forEach(watch);
+  }
+
+  /** link and emit the result, reporting problems without exiting
+   * (diffs go to stderr, so they don't mix with linked results on stdout) */
+  function relink(): void {
+    try {
+      const linked = linkRoot(srcPath, registry);
+      if (argv.diff && previous !== undefined) {
+        printDiff(srcPath, previous, linked, "previous result", console.error);
+      }
+      if (argv.emit) emitLinked(linked);
+      previous = linked;
+    } catch (e) {
+      reportError(e);
+    }
+  }
+}
+
+function reportError(e: unknown): void {
+  console.error(e instanceof Error ? e.message : e);
+}
+
+/** @return file paths (without any baseDir prefix) and file texts */
+function readFiles(paths: string[]): [string, string][] {
+  return paths.map((f) => {
+    const text = fs.readFileSync(f, { encoding: "utf8" });
+    const basedPath = normalize(rmBaseDirPrefix(f));
+    return [basedPath, text];
+  });
+}
+
 function doLink(
   srcPath: string,
   registry: ModuleRegistry,
   origWgsl: string
 ): void {
-  const linked = registry.link(srcPath, externalDefines());
-  argv.emit && console.log(linked);
+  const linked = linkRoot(srcPath, registry);
+  argv.emit && emitLinked(linked);
   argv.diff && printDiff(srcPath, origWgsl, linked);
   argv.details && printDetails(srcPath, registry);
 }
 
+/** link the root module, and write any requested source map and types files
+ * @return the linked text */
+function linkRoot(srcPath: string, registry: ModuleRegistry): string {
+  const rootPath = "./" + srcPath;
+  const linked = argv.sourcemap
+    ? linkWithSourceMap(rootPath, registry, argv.sourcemap)
+    : registry.link(rootPath, externalDefines());
+  argv.emitTypes && writeStructTypes(rootPath, registry, argv.emitTypes);
+  return linked;
+}
+
+/** write the linked result to the --out file, or to stdout */
+function emitLinked(linked: string): void {
+  if (argv.out) {
+    fs.writeFileSync(argv.out, linked);
+  } else {
+    console.log(linked);
+  }
+}
+
+/** link and write a source map file
+ * @return the linked text, with a comment referencing the source map file */
+function linkWithSourceMap(
+  rootPath: string,
+  registry: ModuleRegistry,
+  mapFile: string
+): string {
+  const result = registry.linkWithSourceMap(rootPath, externalDefines());
+  const sourceMap = sourceMapV3(result);
+  sourceMap.sources = sourceMap.sources.map((s) => rootRelativePath(s) ?? s);
+  fs.writeFileSync(mapFile, JSON.stringify(sourceMap));
+
+  const comment = sourceMappingURLComment(path.basename(mapFile));
+  return `${result.dest}\n${comment}`;
+}
+
+/** write interfaces and pack/unpack functions for the structs in the linked result
+ * (javascript if the file ends in .js, otherwise typescript) */
+function writeStructTypes(
+  rootPath: string,
+  registry: ModuleRegistry,
+  typesFile: string
+): void {
+  const { structs } = registry.reflect(rootPath, externalDefines());
+  const format = typesFile.endsWith(".js") ? "js" : "ts";
+  fs.writeFileSync(typesFile, structTypes(structs, format));
+}
+
 function externalDefines(): Record<string, string> {
   if (!argv.define) return {};
   const pairs = argv.define.map((d) => d.toString().split("="));
@@ -110,18 +309,24 @@ function parseDefineValue(value: string): string | number | boolean {
   return value;
 }
 
-function printDiff(modulePath: string, src: string, linked: string): void {
+function printDiff(
+  modulePath: string,
+  src: string,
+  linked: string,
+  srcName = "original source",
+  log: (text: string) => void = console.log
+): void {
   if (src !== linked) {
     const patch = createTwoFilesPatch(modulePath, "linked", src, linked);
-    console.log(patch);
+    log(patch);
   } else {
-    console.log(`${modulePath}: linked version matches original source`);
+    log(`${modulePath}: linked version matches ${srcName}`);
   }
 }
 
 function printDetails(modulePath: string, registry: ModuleRegistry): void {
   console.log(modulePath, ":");
-  const m = registry.findTextModule(modulePath)!;
+  const m = registry.parsed().findTextModule("./" + modulePath)!;
   m.fns.forEach((f) => {
     console.log(`  fn ${f.name}`);
     const calls = f.calls.map((c) => c.name).join("  ");
@@ -0,0 +1,91 @@
+import fs from "fs";
+import path from "path";
+import {
+  collectDiagnostics,
+  importPathNames,
+  parseWgslD,
+  preProcess,
+  WgslBundle,
+} from "wgsl-linker";
+import type { TreeImportElem } from "../../linker/src/AbstractElems.js";
+import { importBundle } from "../../linker/src/ImportBundle.js";
+
+/** wgsl files and package bundles found by following imports */
+export interface LoadedImports {
+  /** file paths of the loaded wgsl files, in load order */
+  files: string[];
+
+  /** bundles of the imported packages */
+  libs: WgslBundle[];
+}
+
+const wgslSuffixes = [".wgsl", ".wesl"];
+
+/**
+ * Load the wgsl files reached through imports from the provided files.
+ *
+ * Relative imports (e.g. import ./util/foo) are loaded from .wgsl or .wesl files
+ * relative to the importing file.
+ * Package imports (e.g. import rand/pcg) are loaded from the WgslBundle
+ * exported by the package in node_modules.
+ *
+ * @param paths files to start from (e.g. the root wgsl file)
+ * @param params runtime params, for #if conditionals around imports
+ */
+export async function loadImports(
+  paths: string[],
+  params: Record<string, any> = {}
+): Promise<LoadedImports> {
+  const files = [...paths];
+  const loaded = new Set(files.map((f) => path.resolve(f)));
+  const packages = new Set<string>();
+
+  for (let i = 0; i < files.length; i++) {
+    const file = files[i];
+    const src = fs.readFileSync(file, { encoding: "utf8" });
+    importPaths(src, params).forEach((segments) => {
+      const [first] = segments;
+      if (first === "." || first === "..") {
+        const found = moduleFiles(path.dirname(file), segments);
+        found
+          .filter((f) => !loaded.has(path.resolve(f)))
+          .forEach((f) => {
+            loaded.add(path.resolve(f));
+            files.push(f);
+          });
+      } else if (first) {
+        packages.add(first);
+      }
+    });
+  }
+
+  const fromDir = path.dirname(path.resolve(paths[0]));
+  const bundles = [...packages].map((p) => importBundle(p, fromDir));
+  const libs = (await Promise.all(bundles)).filter((b): b is WgslBundle => !!b);
+  return { files, libs };
+}
+
+/** @return the flattened path segments of the imports in a wgsl src */
+function importPaths(src: string, params: Record<string, any>): string[][] {
+  // problems are reported when the files are linked
+  const [imports] = collectDiagnostics(() => {
+    const srcMap = preProcess(src, params);
+    const parsed = parseWgslD(srcMap.dest, srcMap);
+    return parsed.filter((e) => e.kind === "treeImport") as TreeImportElem[];
+  });
+  return imports.flatMap(importPathNames);
+}
+
+/**
+ * @return the wgsl files that might contain the module for an import path.
+ * (the module path is a prefix of the import path, e.g. ./util for ./util/foo)
+ */
+function moduleFiles(dir: string, segments: string[]): string[] {
+  const prefixes = segments.map((_, i) => segments.slice(0, i + 1));
+  const candidates = prefixes.flatMap((p) => {
+    const base = path.join(dir, ...p);
+    const suffixed = wgslSuffixes.some((s) => base.endsWith(s));
+    return suffixed ? [base] : wgslSuffixes.map((s) => base + s);
+  });
+  return candidates.filter((f) => fs.existsSync(f) && fs.statSync(f).isFile());
+}
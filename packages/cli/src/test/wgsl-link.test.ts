@@ -1,5 +1,8 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
 import { expect, test, vi } from "vitest";
-import { cli } from "../cli.js";
+import { cli, stopWatching } from "../cli.js";
 
 test("simple link", async () => {
   const logged = await cliLine(
@@ -9,6 +12,34 @@ test("simple link", async () => {
   expect(logged).toMatchSnapshot();
 });
 
+test("link files found through imports", async () => {
+  const logged = await cliLine(`./src/test/wgsl/main.wgsl`);
+  expect(logged).to.include("// fooImpl");
+});
+
+test("link package found through imports", async () => {
+  await withTempDir(async (tmpDir) => {
+    const pkgDir = path.join(tmpDir, "node_modules", "test-pkg");
+    fs.mkdirSync(pkgDir, { recursive: true });
+    const pkgJson = { name: "test-pkg", main: "index.js", type: "module" };
+    const pkgJsonText = JSON.stringify(pkgJson);
+    fs.writeFileSync(path.join(pkgDir, "package.json"), pkgJsonText);
+    const bundle = {
+      name: "test-pkg",
+      version: "0.1.0",
+      edition: "wesl_unstable_2024_1",
+      modules: { "./lib.wgsl": "export fn pkgFn() { /* from pkg */ }" },
+    };
+    const bundleJs = `export default ${JSON.stringify(bundle)};`;
+    fs.writeFileSync(path.join(pkgDir, "index.js"), bundleJs);
+    const main = path.join(tmpDir, "main.wgsl");
+    fs.writeFileSync(main, "import test-pkg/pkgFn\nfn main() { pkgFn(); }");
+
+    const logged = await cliLine(`${main} --baseDir ${tmpDir}`);
+    expect(logged).to.include("/* from pkg */");
+  });
+});
+
 test("link with definition", async () => {
   const logged = await cliLine(
     `./src/test/wgsl/main.wgsl 
@@ -18,6 +49,121 @@ test("link with definition", async () => {
   expect(logged).to.include("fn extra()");
 });
 
+test("link with source map", async () => {
+  await withTempDir(async (tmpDir) => {
+    const mapFile = path.join(tmpDir, "main.wgsl.map");
+    const logged = await cliLine(
+      `./src/test/wgsl/main.wgsl
+         ./src/test/wgsl/util.wgsl
+         --sourcemap ${mapFile}`
+    );
+    expect(logged).to.include("//# sourceMappingURL=main.wgsl.map");
+
+    const sourceMap = JSON.parse(fs.readFileSync(mapFile, "utf8"));
+    expect(sourceMap.version).eq(3);
+    expect(sourceMap.sources).deep.eq([
+      "src/test/wgsl/main.wgsl",
+      "src/test/wgsl/util.wgsl",
+    ]);
+  });
+});
+
+test("link with struct types", async () => {
+  await withTempDir(async (tmpDir) => {
+    const typesFile = path.join(tmpDir, "uniforms.ts");
+    await cliLine(`./src/test/wgsl/uniforms.wgsl --emitTypes ${typesFile}`);
+
+    const types = fs.readFileSync(typesFile, "utf8");
+    expect(types).to.include("export interface Uniforms {");
+    expect(types).to.include("export const UniformsSize = 16;");
+    expect(types).to.include("export function packUniforms(");
+  });
+});
+
+test("watch and relink", async () => {
+  await withTempDir(async (tmpDir) => {
+    const [main, util, out] = watchFiles(tmpDir);
+    const errSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    try {
+      await cli([main, util, "--watch", "--out", out, "--baseDir", tmpDir]);
+      expect(fs.readFileSync(out, "utf8")).to.include("// fooImpl");
+
+      fs.writeFileSync(util, "export fn foo() { /* changed */ }");
+      const changed = await waitFor(() =>
+        fs.readFileSync(out, "utf8").includes("/* changed */")
+      );
+      expect(changed).toBe(true);
+    } finally {
+      stopWatching();
+      errSpy.mockRestore();
+    }
+  });
+});
+
+test("watch a removed file, and diff on stderr", async () => {
+  await withTempDir(async (tmpDir) => {
+    const [main, util, out] = watchFiles(tmpDir);
+    const errSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    const errors = (): string => errSpy.mock.calls.flat().join("\n");
+
+    try {
+      const args = [main, util, "--watch", "--diff", "--baseDir", tmpDir];
+      await cli([...args, "--out", out]);
+
+      fs.rmSync(util);
+      const removed = await waitFor(() =>
+        errors().includes("util.wgsl removed")
+      );
+      expect(removed).toBe(true);
+
+      fs.writeFileSync(util, "export fn foo() { /* recreated */ }");
+      const relinked = await waitFor(() =>
+        fs.readFileSync(out, "utf8").includes("/* recreated */")
+      );
+      expect(relinked).toBe(true);
+      expect(errors()).includes("+fn foo() { /* recreated */ }");
+      expect(logSpy).not.toHaveBeenCalled();
+    } finally {
+      stopWatching();
+      errSpy.mockRestore();
+      logSpy.mockRestore();
+    }
+  });
+});
+
+/** copy the test main and util files to a directory
+ * @return paths of the copies, and of an output file */
+function watchFiles(dir: string): string[] {
+  const [main, util, out] = ["main.wgsl", "util.wgsl", "out.wgsl"].map((f) =>
+    path.join(dir, f)
+  );
+  fs.copyFileSync("./src/test/wgsl/main.wgsl", main);
+  fs.copyFileSync("./src/test/wgsl/util.wgsl", util);
+  return [main, util, out];
+}
+
+/** run a test in a temporary directory, removing the directory afterwards */
+async function withTempDir(fn: (dir: string) => Promise<void>): Promise<void> {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "wgsl-link-"));
+  try {
+    await fn(tmpDir);
+  } finally {
+    fs.rmSync(tmpDir, { recursive: true });
+  }
+}
+
+/** poll until a condition is true, or until a timeout */
+async function waitFor(fn: () => boolean, timeout = 2000): Promise<boolean> {
+  const start = Date.now();
+  while (!fn()) {
+    if (Date.now() - start > timeout) return false;
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  return true;
+}
+
 async function cliLine(argsLine: string): Promise<string> {
   return await withConsoleSpy(() => cli(argsLine.split(/\s+/)));
 }
@@ -0,0 +1,11 @@
+struct Uniforms {
+  color: vec3f,
+  scale: f32,
+}
+
+@group(0) @binding(0) var<uniform> uniforms: Uniforms;
+
+@fragment
+fn main() -> @location(0) vec4f {
+  return vec4f(uniforms.color * uniforms.scale, 1.0);
+}
@@ -1,4 +1,4 @@
-// #export
+export
 fn foo() {
   // fooImpl
 }
\ No newline at end of file
@@ -1,16 +1,19 @@
 /** Structures for the abstract syntax tree constructed by the parser. */
 
+import { CondExpr } from "./ConditionExpr.js";
 import { ImportTree } from "./ImportTree.js";
 import { FoundRef } from "./TraverseRefs.js";
 
 export type AbstractElem =
   | AliasElem
+  | AttributeElem
   | TreeImportElem
   | ExtendsElem
   | ExportElem
   | ModuleElem
   | TemplateElem
   | FnElem
+  | FnParamElem
   | GlobalDirectiveElem
   | TypeNameElem
   | FnNameElem
@@ -19,7 +22,9 @@ export type AbstractElem =
   | StructElem
   | StructMemberElem
   | VarElem
-  | TypeRefElem;
+  | VarRefElem
+  | TypeRefElem
+  | TypeSpecElem;
 
 export type NamedElem = Extract<AbstractElem, { name: string }>;
 
@@ -29,6 +34,23 @@ export interface AbstractElemBase {
   end: number;
 }
 
+/** an attribute on a declaration, e.g. @binding(1) or @compute */
+export interface AttributeElem extends AbstractElemBase {
+  kind: "attribute";
+
+  /** attribute name, without the '@' */
+  name: string;
+
+  /** source text of each attribute parameter, e.g. ["1"] for @binding(1) */
+  params: string[];
+
+  /** parsed condition of an @if attribute */
+  condition?: CondExpr;
+
+  /** src range of the declaration, member, statement or import an @if attribute applies to */
+  target?: { start: number; end: number };
+}
+
 export interface CallElem extends AbstractElemBase {
   kind: "call";
   name: string;
@@ -45,12 +67,54 @@ export interface VarNameElem extends AbstractElemBase {
   name: string;
 }
 
+/** reference to a global var, const or override (e.g. in an expression) */
+export interface VarRefElem extends AbstractElemBase {
+  kind: "varRef";
+  name: string;
+  ref?: FoundRef;
+}
+
 export interface FnElem extends AbstractElemBase {
   kind: "fn";
   name: string;
   nameElem: FnNameElem;
   calls: CallElem[];
   typeRefs: TypeRefElem[];
+  varRefs: VarRefElem[];
+  attributes: AttributeElem[];
+  params: FnParamElem[];
+  returnType?: TypeSpecElem;
+  returnAttributes: AttributeElem[];
+
+  /** local declarations in the fn, for resolving names in the fn body */
+  scope: FnScope;
+}
+
+export interface FnParamElem extends AbstractElemBase {
+  kind: "param";
+  name: string;
+  type?: TypeSpecElem;
+  attributes: AttributeElem[];
+}
+
+/** a lexical scope in a fn: the fn itself (for params), a block, or a for loop */
+export interface FnScope {
+  start: number;
+  end: number;
+
+  /** names declared in this scope */
+  decls: LocalDecl[];
+
+  /** scopes nested inside this one */
+  children: FnScope[];
+}
+
+/** a fn param, or a let, var or const declared in a fn body */
+export interface LocalDecl {
+  name: string;
+
+  /** position where the name becomes visible (it's visible through the end of its scope) */
+  start: number;
 }
 
 export interface TypeRefElem extends AbstractElemBase {
@@ -59,6 +123,20 @@ export interface TypeRefElem extends AbstractElemBase {
   ref?: FoundRef;
 }
 
+/** a type in a declaration, e.g. the array<MyStruct, 4> in var x: array<MyStruct, 4> */
+export interface TypeSpecElem extends AbstractElemBase {
+  kind: "typeSpec";
+
+  /** source text of the type */
+  text: string;
+
+  /** references to user types inside the type */
+  typeRefs: TypeRefElem[];
+
+  /** references to consts inside the type (e.g. array sizes) */
+  varRefs: VarRefElem[];
+}
+
 export interface TypeNameElem extends AbstractElemBase {
   kind: "typeName";
   name: string;
@@ -75,7 +153,10 @@ export interface StructElem extends AbstractElemBase {
 export interface StructMemberElem extends AbstractElemBase {
   kind: "member";
   name: string;
+  type: TypeSpecElem;
   typeRefs: TypeRefElem[];
+  varRefs: VarRefElem[];
+  attributes: AttributeElem[];
 }
 
 export interface ExportElem extends AbstractElemBase {
@@ -110,7 +191,17 @@ export interface VarElem extends AbstractElemBase {
   kind: "var";
   name: string;
   nameElem: VarNameElem;
+  type?: TypeSpecElem;
   typeRefs: TypeRefElem[];
+  attributes: AttributeElem[];
+
+  /** address space and access mode from a var<...> template, e.g. storage, read_write */
+  addressSpace?: string;
+  accessMode?: string;
+
+  /** type constructor calls and var references in the initializer */
+  calls: CallElem[];
+  varRefs: VarRefElem[];
 }
 
 export interface TemplateElem extends AbstractElemBase {
@@ -121,6 +212,8 @@ export interface TemplateElem extends AbstractElemBase {
 export interface AliasElem extends AbstractElemBase {
   kind: "alias";
   name: string;
+  nameElem: TypeNameElem;
+  type: TypeSpecElem;
   targetName: string;
   typeRefs: TypeRefElem[];
 }
@@ -0,0 +1,177 @@
+import { AttributeElem, VarElem } from "./AbstractElems.js";
+import { noSuffix } from "./PathUtil.js";
+import { SliceReplace } from "./Slicer.js";
+import { FoundRef, TextRef } from "./TraverseRefs.js";
+
+/** a bind group and binding number for a resource var */
+export interface GroupBinding {
+  group: number;
+  binding: number;
+}
+
+/** final group and binding for a resource var in the linked result */
+export interface BindingEntry extends GroupBinding {
+  /** path of the module declaring the var, e.g. "_root/util.wgsl" */
+  modulePath: string;
+
+  /** name of the var in its module */
+  name: string;
+
+  /** name of the var in the linked result (the var may have been renamed) */
+  linkName: string;
+}
+
+/** a var that should be assigned a particular group and binding */
+export interface PinnedBinding extends GroupBinding {
+  /** path of the module declaring the var (with or without a .wgsl suffix) */
+  modulePath: string;
+
+  /** name of the var in its module */
+  name: string;
+}
+
+export interface BindingOptions {
+  /** vars to assign fixed group and binding numbers, regardless of their attributes */
+  pinned?: PinnedBinding[];
+}
+
+/**
+ * Assign non conflicting @group and @binding numbers to the resource vars
+ * (uniform and storage buffers, textures and samplers) in the linked result.
+ *
+ * Pinned vars get their pinned numbers. Other vars keep their declared numbers
+ * if they're still free, in link order. Vars that conflict or are missing
+ * attributes get the next free binding in their declared group (or group 0).
+ *
+ * The assigned numbers are recorded in the refs, for rewriting attributes when the vars are loaded.
+ * @return a table of the assigned numbers for each resource var
+ */
+export function allocateBindings(
+  refs: FoundRef[],
+  options: BindingOptions = {}
+): BindingEntry[] {
+  const { pinned = [] } = options;
+  const resourceRefs = refs.filter(isResourceRef);
+  const used = new Map<number, Set<number>>();
+
+  const pinnedRefs = resourceRefs.filter((ref) => {
+    const pin = pinned.find((p) => pinMatch(p, ref));
+    if (pin) assign(ref, pin);
+    return !!pin;
+  });
+  const unpinned = resourceRefs.filter((ref) => !pinnedRefs.includes(ref));
+
+  const unassigned = unpinned.filter((ref) => {
+    const declared = declaredBinding(ref.elem);
+    const { group, binding } = declared;
+    const free =
+      group !== undefined &&
+      binding !== undefined &&
+      !used.get(group)?.has(binding);
+    if (free) assign(ref, { group, binding });
+    return !free;
+  });
+
+  unassigned.forEach((ref) => {
+    const group = declaredBinding(ref.elem).group ?? 0;
+    const bindings = used.get(group);
+    let binding = 0;
+    while (bindings?.has(binding)) binding++;
+    assign(ref, { group, binding });
+  });
+
+  return resourceRefs.map((ref) => {
+    const { expMod, elem, rename, binding } = ref;
+    const { modulePath } = expMod;
+    const linkName = rename ?? elem.name;
+    return { modulePath, name: elem.name, linkName, ...binding! };
+  });
+
+  function assign(ref: ResourceRef, groupBinding: GroupBinding): void {
+    const { group, binding } = groupBinding;
+    ref.binding = { group, binding };
+    const bindings = used.get(group) ?? new Set();
+    bindings.add(binding);
+    used.set(group, bindings);
+  }
+}
+
+/** @return slices to rewrite the @group and @binding attributes of a var to the assigned numbers */
+export function bindingSlices(
+  elem: VarElem,
+  assigned: GroupBinding
+): SliceReplace[] {
+  const { group, binding } = assigned;
+  const groupAttr = findAttribute(elem, "group");
+  const bindingAttr = findAttribute(elem, "binding");
+  const groupText = `@group(${group})`;
+  const bindingText = `@binding(${binding})`;
+
+  if (groupAttr && bindingAttr) {
+    return [
+      { start: groupAttr.start, end: groupAttr.end, replacement: groupText },
+      {
+        start: bindingAttr.start,
+        end: bindingAttr.end,
+        replacement: bindingText,
+      },
+    ];
+  }
+
+  // replace any partial attributes with a complete pair
+  const partial = groupAttr ?? bindingAttr;
+  const replacement = `${groupText} ${bindingText}`;
+  if (partial) {
+    return [{ start: partial.start, end: partial.end, replacement }];
+  }
+  const { start } = elem;
+  return [{ start, end: start, replacement: replacement + " " }];
+}
+
+export type ResourceRef = TextRef & { elem: VarElem };
+
+/** @return true if the ref is to a var that needs a group and binding */
+export function isResourceRef(ref: FoundRef): ref is ResourceRef {
+  if (ref.kind !== "txt" || ref.elem.kind !== "var") return false;
+  const { elem } = ref;
+  if (findAttribute(elem, "group") || findAttribute(elem, "binding")) {
+    return true;
+  }
+  const { addressSpace } = elem;
+  if (addressSpace === "uniform" || addressSpace === "storage") return true;
+
+  const typeName = elem.typeRefs[0]?.name ?? "";
+  return typeName.startsWith("texture_") || typeName.startsWith("sampler");
+}
+
+/** @return group and binding numbers from the var's attributes
+ * (undefined if missing or not a literal number) */
+export function declaredBinding(elem: VarElem): Partial<GroupBinding> {
+  const group = attributeNumber(findAttribute(elem, "group"));
+  const binding = attributeNumber(findAttribute(elem, "binding"));
+  return { group, binding };
+}
+
+/** @return the first attribute param as a number, if it's a literal number */
+export function attributeNumber(attr?: AttributeElem): number | undefined {
+  const param = attr?.params[0];
+  if (param === undefined) return undefined;
+  const value = parseInt(param);
+  return Number.isNaN(value) ? undefined : value;
+}
+
+/** @return the named attribute from a var, fn, param or struct member */
+export function findAttribute(
+  elem: { attributes: AttributeElem[] },
+  name: string
+): AttributeElem | undefined {
+  return elem.attributes.find((a) => a.name === name);
+}
+
+function pinMatch(pin: PinnedBinding, ref: ResourceRef): boolean {
+  const { modulePath } = ref.expMod;
+  return (
+    pin.name === ref.elem.name &&
+    noSuffix(pin.modulePath) === noSuffix(modulePath)
+  );
+}
@@ -0,0 +1,188 @@
+import {
+  kind,
+  matchOneOf,
+  opt,
+  or,
+  Parser,
+  repeat,
+  req,
+  seq,
+  setTraceNames,
+  tokenMatcher,
+  tokens,
+  tracing,
+} from "mini-parse";
+
+/* boolean expressions for conditional compilation, e.g. #if HAS_F16 && (QUALITY > 2 || DEBUG) */
+
+/** a parsed condition, evaluated later against the runtime params */
+export type CondExpr =
+  | CondLiteral
+  | CondParam
+  | { kind: "not"; expr: CondExpr }
+  | { kind: "binary"; op: CondOp; left: CondExpr; right: CondExpr };
+
+export interface CondLiteral {
+  kind: "literal";
+  value: number | string | boolean;
+}
+
+/** a reference to a runtime param by name */
+export interface CondParam {
+  kind: "param";
+  name: string;
+}
+
+export type CondOp = "&&" | "||" | "==" | "!=" | "<" | "<=" | ">" | ">=";
+
+const conditionKinds = {
+  string: /"[^"\n]*"|'[^'\n]*'/,
+  number: /\d+(?:\.\d*)?|\.\d+/,
+  word: /[a-zA-Z_]\w*/,
+  symbol: matchOneOf("&& || ! == != <= >= < > ( )"),
+};
+
+/** tokens for #if conditions */
+export const conditionTokens = tokenMatcher(
+  {
+    ws: /[ \t]+/, // don't include \n, so conditions end at eol
+    eol: /\n/,
+    ...conditionKinds,
+  },
+  "conditions"
+);
+
+/** tokens for @if conditions, which may span lines */
+const attributeConditionTokens = tokenMatcher(
+  { ws: /\s+/, ...conditionKinds },
+  "attributeConditions"
+);
+
+const number = kind(conditionTokens.number).map(
+  (r): CondExpr => ({ kind: "literal", value: Number.parseFloat(r.value) })
+);
+
+const string = kind(conditionTokens.string).map(
+  (r): CondExpr => ({ kind: "literal", value: r.value.slice(1, -1) })
+);
+
+const word = kind(conditionTokens.word).map((r): CondExpr => {
+  const name = r.value;
+  if (name === "true") return { kind: "literal", value: true };
+  if (name === "false") return { kind: "literal", value: false };
+  return { kind: "param", name };
+});
+
+let orExpr: Parser<CondExpr> = null as any;
+let unary: Parser<CondExpr> = null as any;
+
+const parens = seq("(", () => orExpr, req(")")).map((r) => r.value[1]);
+
+const primary = or(parens, number, string, word);
+
+unary = or(
+  seq(
+    "!",
+    req(() => unary)
+  ).map((r): CondExpr => ({ kind: "not", expr: r.value[1] })),
+  primary
+);
+
+const comparison = seq(
+  unary,
+  opt(seq(or("==", "!=", "<=", ">=", "<", ">"), req(unary)))
+).map((r): CondExpr => {
+  const [left, rest] = r.value;
+  if (!rest) return left;
+  const [op, right] = rest;
+  return { kind: "binary", op: op as CondOp, left, right };
+});
+
+const andExpr = seq(comparison, repeat(seq("&&", req(comparison)))).map((r) =>
+  binaryChain(r.value[0], r.value[1])
+);
+
+orExpr = seq(andExpr, repeat(seq("||", req(andExpr)))).map((r) =>
+  binaryChain(r.value[0], r.value[1])
+);
+
+/** parse a condition expression (switches to the condition tokens) */
+export const conditionExpr: Parser<CondExpr> = tokens(conditionTokens, orExpr);
+
+/** parse a condition expression in an @if attribute */
+export const attributeConditionExpr: Parser<CondExpr> = tokens(
+  attributeConditionTokens,
+  orExpr
+);
+
+/** fold a left associative chain like a && b && c into binary expressions */
+function binaryChain(first: CondExpr, rest: [string, CondExpr][]): CondExpr {
+  return rest.reduce(
+    (left, [op, right]): CondExpr => ({
+      kind: "binary",
+      op: op as CondOp,
+      left,
+      right,
+    }),
+    first
+  );
+}
+
+/** @return the names of the params referenced in a condition */
+export function conditionParams(expr: CondExpr): string[] {
+  const { kind } = expr;
+  if (kind === "literal") return [];
+  if (kind === "param") return [expr.name];
+  if (kind === "not") return conditionParams(expr.expr);
+  return [...conditionParams(expr.left), ...conditionParams(expr.right)];
+}
+
+/**
+ * Evaluate a condition against the runtime params.
+ *
+ * Params are looked up by name (missing params are undefined),
+ * comparisons use javascript semantics (without type coercion for == and !=),
+ * and the result is the javascript truthiness of the expression.
+ */
+export function evaluateCondition(
+  expr: CondExpr,
+  params: Record<string, any>
+): boolean {
+  return !!conditionValue(expr, params);
+}
+
+function conditionValue(expr: CondExpr, params: Record<string, any>): any {
+  const { kind } = expr;
+  if (kind === "literal") return expr.value;
+  if (kind === "param") return params[expr.name];
+  if (kind === "not") return !conditionValue(expr.expr, params);
+
+  const left = conditionValue(expr.left, params);
+  const { op } = expr;
+  if (op === "&&") return left && conditionValue(expr.right, params);
+  if (op === "||") return left || conditionValue(expr.right, params);
+
+  const right = conditionValue(expr.right, params);
+  if (op === "==") return left === right;
+  if (op === "!=") return left !== right;
+  if (op === "<") return left < right;
+  if (op === "<=") return left <= right;
+  if (op === ">") return left > right;
+  return left >= right;
+}
+
+if (tracing) {
+  setTraceNames({
+    number,
+    string,
+    word,
+    parens,
+    primary,
+    unary,
+    comparison,
+    andExpr,
+    orExpr,
+    conditionExpr,
+    attributeConditionExpr,
+  });
+}
@@ -1,6 +1,7 @@
-/* handle #if #else #endif */
+/* handle #if #elif #else #endif #define #undef */
 import {
   any,
+  anyNot,
   anyThrough,
   eof,
   ExtendedResult,
@@ -14,16 +15,21 @@ import {
   Parser,
   repeat,
   req,
-  resultLog,
   seq,
   setTraceName,
-  srcLog,
   SrcMap,
   SrcMapEntry,
   tokenMatcher,
   tokenSkipSet,
   tracing,
 } from "mini-parse";
+import {
+  CondExpr,
+  conditionExpr,
+  conditionParams,
+  evaluateCondition,
+} from "./ConditionExpr.js";
+import { resultReport, srcReport } from "./Diagnostics.js";
 import { directive, eol } from "./MatchWgslD.js";
 import { ParseState } from "./ParseWgslD.js";
 
@@ -42,38 +48,85 @@ const eolf = makeEolf(conditionalsTokens, conditionalsTokens.ws);
 
 const ifDirective: Parser<any> = seq(
   "#if",
-  seq(
-    opt("!").tag("invert"),
-    req(kind(conditionalsTokens.word).tag("name")),
-    eolf
-  )
+  seq(req(conditionExpr.tag("condition")), eolf)
 ).map((r) => {
-  // extract args
-  const ifArg = r.tags["name"]?.[0] as string;
-  const invert = r.tags["invert"]?.[0] === "!";
-
-  // lookup whether #if arg is truthy or not in paramsa, and invert for ! prefix
+  // evaluate the #if condition against the runtime params
+  const condition = r.tags["condition"]?.[0] as CondExpr;
   const { params } = r.app.state;
-  const arg = !!params[ifArg];
-  const truthy = invert ? !arg : arg;
+  noteParams(r, condition);
+  const truthy = evaluateCondition(condition, params);
 
   pushIfState(r, truthy);
 });
 
+const elifDirective = seq(
+  or("#elif", "#elseif"),
+  seq(req(conditionExpr.tag("condition")), eolf)
+).map((r) => {
+  const ifState = topIfState(r);
+  if (!ifState) return unmatched(r, "unmatched #elif");
+  if (ifState.inElse) return unmatched(r, "#elif after #else");
+
+  // evaluate the condition only if no earlier clause was taken
+  const condition = r.tags["condition"]?.[0] as CondExpr;
+  const { params } = r.app.state;
+  noteParams(r, condition);
+  const truthy = !ifState.taken && evaluateCondition(condition, params);
+  setIfState(ifState, r, truthy);
+});
+
 const elseDirective = seq("#else", eolf).map((r) => {
-  const oldTruth = popIfState(r);
-  if (oldTruth === undefined) resultLog(r, "unmatched #else");
-  pushIfState(r, !oldTruth);
+  const ifState = topIfState(r);
+  if (!ifState) return unmatched(r, "unmatched #else");
+  if (ifState.inElse) return unmatched(r, "#else after #else");
+  setIfState(ifState, r, !ifState.taken);
+  ifState.inElse = true;
 });
 
 const endifDirective = seq("#endif", eolf).map((r) => {
   const oldTruth = popIfState(r);
-  if (oldTruth === undefined) resultLog(r, "unmatched #endif");
+  if (oldTruth === undefined) unmatched(r, "unmatched #endif");
+});
+
+const defineDirective = seq(
+  or(seq("#export", "define").tag("export"), "#define"),
+  req(kind(conditionalsTokens.word).tag("name")),
+  repeat(anyNot("\n")).tag("value"),
+  eolf
+).map((r) => {
+  if (skippingIfBody(r)) return;
+  const [name] = r.tags.name;
+  const valueTokens = r.tags.value.flat();
+  const value = defineValue(valueTokens.map((t) => t.text).join(" "));
+  const { state } = r.app;
+  state.defines[name] = value;
+  if (r.tags.export?.length) state.exportDefines[name] = value;
+  state.params = { ...state.defines, ...state.runtimeParams };
+});
+
+const undefDirective = seq(
+  "#undef",
+  req(kind(conditionalsTokens.word).tag("name")),
+  eolf
+).map((r) => {
+  if (skippingIfBody(r)) return;
+  const [name] = r.tags.name;
+  const { state } = r.app;
+  delete state.defines[name];
+  delete state.exportDefines[name];
+  state.params = { ...state.defines, ...state.runtimeParams };
 });
 
 const directiveLine = seq(
   opt("//"),
-  or(ifDirective, elseDirective, endifDirective)
+  or(
+    ifDirective,
+    elifDirective,
+    elseDirective,
+    endifDirective,
+    defineDirective,
+    undefDirective
+  )
 );
 
 // special case for last line which might not have a newline
@@ -92,6 +145,22 @@ const line = tokenSkipSet(null, regularLine);
 
 const srcLines = seq(repeat(or(directiveLine, line)), eof());
 
+/** @return the value of a #define, e.g. true for #define FOO, 16 for #define SIZE 16 */
+function defineValue(text: string): any {
+  if (text === "" || text === "true") return true;
+  if (text === "false") return false;
+  if (/^-?(\d+(\.\d*)?|\.\d+)$/.test(text)) return Number.parseFloat(text);
+  const quoted = text.match(/^"(.*)"$|^'(.*)'$/);
+  if (quoted) return quoted[1] ?? quoted[2];
+  return text;
+}
+
+/** record the params referenced by a condition (even if the condition isn't evaluated) */
+function noteParams(r: ExtendedResult<any>, condition: CondExpr): void {
+  const paramNames = r.app.state.paramNames as Set<string>;
+  conditionParams(condition).forEach((name) => paramNames.add(name));
+}
+
 function skippingIfBody(
   r: ExtendedResult<unknown, TagRecord, ParseState>
 ): boolean {
@@ -103,7 +172,26 @@ function pushIfState<T>(
   r: ExtendedResult<T, TagRecord, ParseState>,
   truthy: boolean
 ): void {
-  r.app.state.ifStack.push({ truthy, pos: r });
+  const { start, end } = r;
+  r.app.state.ifStack.push({ truthy, taken: truthy, pos: { start, end } });
+}
+
+function topIfState<T>(
+  r: ExtendedResult<T, TagRecord, ParseState>
+): IfStackElem | undefined {
+  const ifStack = r.app.state.ifStack as IfStackElem[];
+  return ifStack[ifStack.length - 1];
+}
+
+/** switch to a new #elif or #else clause */
+function setIfState<T>(
+  ifState: IfStackElem,
+  r: ExtendedResult<T, TagRecord, ParseState>,
+  truthy: boolean
+): void {
+  ifState.truthy = truthy;
+  ifState.taken ||= truthy;
+  ifState.pos = { start: r.start, end: r.end };
 }
 
 function popIfState<T>(
@@ -114,6 +202,10 @@ function popIfState<T>(
   return result?.truthy;
 }
 
+function unmatched(r: ExtendedResult<any>, message: string): void {
+  resultReport(r, "unmatched-conditional", message);
+}
+
 function pushLine(r: ExtendedResult<any>): void {
   const line = r.src.slice(r.start, r.end);
   const { state } = r.app;
@@ -130,44 +222,92 @@ function pushLine(r: ExtendedResult<any>): void {
 }
 
 interface IfStackElem {
+  /** true if the current clause is included */
   truthy: boolean;
+
+  /** true if any clause so far in this #if chain was included */
+  taken: boolean;
+
+  /** true once the #else clause is reached */
+  inElse?: boolean;
+
+  /** position of the current clause's directive */
   pos: { start: number; end: number };
 }
 
-/** preprocess a src string to handle #if #else #endif, etc. */
+/** preprocessed src, along with the values set by #define */
+export interface ConditionalsResult {
+  srcMap: SrcMap;
+
+  /** runtime params combined with the #defines in effect at the end of the src */
+  params: Record<string, any>;
+
+  /** values set by #export define, visible to importing modules */
+  exportDefines: Record<string, any>;
+
+  /** names of the params referenced by #if and #elif conditions */
+  paramNames: string[];
+}
+
+/** preprocess a src string to handle #if #elif #else #endif, etc. */
 export function processConditionals(
   src: string,
   params: Record<string, any>
 ): SrcMap {
+  return processConditionalDefines(src, params).srcMap;
+}
+
+/**
+ * Preprocess a src string to handle #if #elif #else #endif #define #undef.
+ *
+ * Runtime params take precedence over #defined values,
+ * so #define provides a default value for a param.
+ *
+ * @param defines initial #define values, e.g. exported from imported modules
+ */
+export function processConditionalDefines(
+  src: string,
+  runtimeParams: Record<string, any>,
+  defines: Record<string, any> = {}
+): ConditionalsResult {
   const lines: string[] = [];
   const srcMapEntries: SrcMapEntry[] = [];
   const ifStack: IfStackElem[] = [];
+  const exportDefines: Record<string, any> = {};
+  const paramNames = new Set<string>();
+  const state = {
+    ...{ ifStack, lines, srcMapEntries, destLength: 0, paramNames },
+    ...{ runtimeParams, exportDefines, defines: { ...defines } },
+    params: { ...defines, ...runtimeParams },
+  };
   srcLines.parse({
     lexer: matchingLexer(src, conditionalsTokens),
-    app: {
-      context: {},
-      state: { ifStack, lines, srcMapEntries, destLength: 0, params },
-    },
+    app: { context: {}, state },
     maxParseCount: 1e6,
   });
   if (ifStack.length > 0) {
     const { pos } = ifStack.slice(-1)[0];
-    srcLog(src, [pos.start, pos.end], "unmatched #if/#else");
+    const message = "unmatched #if/#else";
+    srcReport(src, [pos.start, pos.end], "unmatched-conditional", message);
   }
 
   const text = lines.join("");
   const srcMap = new SrcMap(text);
   srcMap.addEntries(srcMapEntries);
   srcMap.compact();
-  return srcMap;
+  const { params } = state;
+  return { srcMap, params, exportDefines, paramNames: [...paramNames] };
 }
 
 /** debug for recognizer */
 if (tracing) {
   const names: Record<string, Parser<unknown>> = {
     ifDirective,
+    elifDirective,
     elseDirective,
     endifDirective,
+    defineDirective,
+    undefDirective,
     directiveLine,
     simpleLine,
     lastLine,
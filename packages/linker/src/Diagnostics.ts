@@ -0,0 +1,235 @@
+import {
+  ExtendedResult,
+  srcLine,
+  srcLog,
+  SrcMap,
+  withSrcLogger,
+} from "mini-parse";
+
+/** kinds of problems reported by the linker */
+export type DiagnosticCode =
+  | "parse" // wgsl or directive syntax error
+  | "unexpected-token" // unrecognized text at the module level
+  | "unresolved-reference" // fn call or type reference not found
+  | "unresolved-extends" // #extends target not found
+  | "export-target" // #export not followed by a fn or struct
+  | "extends-target" // #extends not followed by a struct
+  | "unmatched-conditional" // unbalanced #if #else #endif
+  | "template-not-found" // #template name not registered
+  | "module-not-found" // imported module not found
+  | "import-args" // import args don't match export params
+  | "missing-ext-param" // import references an ext. param that wasn't provided
+  | "missing-generator" // generator export not found
+  | "bundle-version" // a dependency bundle's version differs from the registered bundle
+  | "import-cycle"; // modules import each other (see reportImportCycles())
+
+export type DiagnosticSeverity = "error" | "warning";
+
+/** a problem found while parsing or linking */
+export interface Diagnostic {
+  severity: DiagnosticSeverity;
+  code: DiagnosticCode;
+  message: string;
+
+  /** path of the module containing the problem (if known) */
+  modulePath?: string;
+
+  /** start of the problem text in the original module src (if known) */
+  start?: number;
+
+  /** end of the problem text in the original module src (if known) */
+  end?: number;
+
+  /** line number of start in the original module src (first line is 1) */
+  lineNum?: number;
+
+  /** column of start in its line (first column is 1) */
+  linePos?: number;
+}
+
+/** receives diagnostics as they're reported */
+export type DiagnosticSink = (diagnostic: Diagnostic) => void;
+
+/** active sink for diagnostics */
+let diagnosticSink: DiagnosticSink | undefined;
+
+/** true if problems should also be logged to the console */
+let logProblems = true;
+
+/** A link failure (e.g. in strict mode), listing all the problems found */
+export class LinkError extends Error {
+  constructor(public diagnostics: Diagnostic[]) {
+    const lines = diagnostics.map((d) => `  ${formatDiagnostic(d)}`);
+    super(`link failed:\n${lines.join("\n")}`);
+  }
+}
+
+/** @return a one line description of a diagnostic, e.g. "util.wgsl:3:7 reference not found: foo" */
+export function formatDiagnostic(d: Diagnostic): string {
+  const { modulePath, lineNum, linePos, message } = d;
+  const line = lineNum !== undefined ? `:${lineNum}:${linePos}` : "";
+  const location = modulePath ? `${modulePath}${line} ` : "";
+  return `${location}${message}`;
+}
+
+/**
+ * Run a function, sending any problems reported while it runs to the sink
+ * rather than to the console.
+ * (Parser errors logged via srcLog in mini-parse are reported as "parse" diagnostics,
+ * with warning severity for text the parser skipped to recover.)
+ */
+export function withDiagnostics<T>(sink: DiagnosticSink, fn: () => T): T {
+  return withSink(sink, false, fn);
+}
+
+/** run a function, collecting any diagnostics reported while it runs */
+export function collectDiagnostics<T>(fn: () => T): [T, Diagnostic[]] {
+  const diagnostics: Diagnostic[] = [];
+  const result = withDiagnostics((d) => diagnostics.push(d), fn);
+  return [result, diagnostics];
+}
+
+/** Run a function, recording any diagnostics reported while it runs.
+ * Unlike collectDiagnostics(), reports are still passed on
+ * to the enclosing sink (or logged to the console). */
+export function recordDiagnostics<T>(fn: () => T): [T, Diagnostic[]] {
+  const outer = diagnosticSink;
+  const diagnostics: Diagnostic[] = [];
+  const record = (d: Diagnostic): void => {
+    diagnostics.push(d);
+    outer?.(d);
+  };
+  const result = withSink(record, logProblems, fn);
+  return [result, diagnostics];
+}
+
+/** pass diagnostics recorded earlier on to the active sink, if any
+ * (they were logged to the console when first reported, so they're not logged again) */
+export function forwardDiagnostics(diagnostics: Diagnostic[]): void {
+  if (diagnosticSink) diagnostics.forEach(diagnosticSink);
+}
+
+/** @throws LinkError if any of the diagnostics are errors */
+export function throwErrors(diagnostics: Diagnostic[]): void {
+  const errors = diagnostics.filter((d) => d.severity === "error");
+  if (errors.length) {
+    throw new LinkError(errors);
+  }
+}
+
+/** Run a function, attributing any diagnostics reported without
+ * a module path to the provided module path. */
+export function withModulePath<T>(modulePath: string, fn: () => T): T {
+  const outer = diagnosticSink;
+  if (!outer) return fn();
+
+  const sink = (d: Diagnostic): void => outer({ modulePath, ...d });
+  return withSink(sink, logProblems, fn);
+}
+
+/**
+ * Report a problem at a position in the src text.
+ * If no sink is active, log the problem to the console.
+ *
+ * @param src src text, or a SrcMap if the position is in preprocessed text
+ * @param pos position (or start and end positions) of the problem in the src text
+ * @param logMsgs additional text appended to the console log message
+ */
+export function srcReport(
+  src: string | SrcMap,
+  pos: number | [number, number],
+  code: DiagnosticCode,
+  message: string,
+  ...logMsgs: any[]
+): void {
+  diagnosticSink?.(srcDiagnostic(src, pos, code, message));
+  if (logProblems) {
+    withSrcLogger(undefined, () => srcLog(src, pos, message, ...logMsgs));
+  }
+}
+
+/** report a problem at the src position of a parser result */
+export function resultReport(
+  r: ExtendedResult<any, any>,
+  code: DiagnosticCode,
+  message: string
+): void {
+  const { src, srcMap, start, end } = r;
+  srcReport(srcMap ?? src, [start, end - 1], code, message);
+}
+
+/** report a problem without a src position (e.g. from a code generator)
+ * @param log logs the problem to the console, if no sink is active */
+export function report(
+  code: DiagnosticCode,
+  message: string,
+  log: () => void
+): void {
+  diagnosticSink?.({ severity: "error", code, message });
+  if (logProblems) log();
+}
+
+/** report a warning without a src position (e.g. while registering modules) */
+export function reportWarning(code: DiagnosticCode, message: string): void {
+  diagnosticSink?.({ severity: "warning", code, message });
+  if (logProblems) console.warn(message);
+}
+
+/** run a function with the provided sink, and console logging on or off */
+function withSink<T>(sink: DiagnosticSink, log: boolean, fn: () => T): T {
+  const [origSink, origLog] = [diagnosticSink, logProblems];
+  try {
+    diagnosticSink = sink;
+    logProblems = log;
+    return withSrcLogger(parseLogToDiagnostic, fn);
+  } finally {
+    diagnosticSink = origSink;
+    logProblems = origLog;
+  }
+}
+
+/** @return a diagnostic positioned in the original src text */
+function srcDiagnostic(
+  src: string | SrcMap,
+  pos: number | [number, number],
+  code: DiagnosticCode,
+  message: string,
+  severity: DiagnosticSeverity = "error"
+): Diagnostic {
+  const [destStart, destEnd] = typeof pos === "number" ? [pos, pos] : pos;
+  let srcText: string;
+  let start: number;
+  let end: number;
+  let srcPath: string | undefined;
+  if (typeof src === "string") {
+    [srcText, start, end] = [src, destStart, destEnd];
+  } else {
+    const [mappedStart, mappedEnd] = src.mapPositions(destStart, destEnd);
+    srcText = mappedStart.src;
+    srcPath = mappedStart.srcPath;
+    start = mappedStart.position;
+    end = mappedEnd.src === srcText ? mappedEnd.position : start;
+  }
+  const { lineNum, linePos } = srcLine(srcText, start);
+  const diagnostic: Diagnostic = { severity, code, message, start, end };
+  if (srcPath) diagnostic.modulePath = srcPath;
+  return { ...diagnostic, lineNum, linePos: linePos + 1 };
+}
+
+/** srcLog messages from mini-parse about skipping unrecognized text to continue parsing */
+const recoveryMessage = /^skipped: /;
+
+/** convert a srcLog message from mini-parse into a diagnostic
+ * (a warning if the parser recovered by skipping text, otherwise an error) */
+function parseLogToDiagnostic(
+  src: string | SrcMap,
+  pos: number | [number, number],
+  ...msgs: any[]
+): void {
+  const message = msgs.join(" ");
+  const severity = recoveryMessage.test(message) ? "warning" : "error";
+  diagnosticSink?.(srcDiagnostic(src, pos, "parse", message, severity));
+  if (logProblems) {
+    withSrcLogger(undefined, () => srcLog(src, pos, ...msgs));
+  }
+}
@@ -0,0 +1,35 @@
+import { createRequire } from "node:module";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import { WgslBundle } from "./WgslBundle.js";
+
+/**
+ * Import the WgslBundle exported by a package in node_modules.
+ *
+ * (for node based tools, e.g. wgsl-link and wgsl-packager.
+ * Not exported from the package index, which also runs in the browser)
+ *
+ * @param fromDir directory to resolve the package from
+ * @return the bundle, or undefined if there's no such package or it has no bundle
+ */
+export async function importBundle(
+  packageName: string,
+  fromDir: string
+): Promise<WgslBundle | undefined> {
+  const require = createRequire(path.resolve(fromDir, "package.json"));
+  let entry: string;
+  try {
+    entry = require.resolve(packageName);
+  } catch {
+    return undefined; // not a package (e.g. a module registered another way)
+  }
+  const exported = await import(pathToFileURL(entry).href);
+  const { default: defaultExport, wgslBundle } = exported;
+  const bundle = [defaultExport, wgslBundle, defaultExport?.wgslBundle].find(
+    (b) => b?.modules
+  );
+  if (!bundle) {
+    console.error(`no wgsl bundle found in package: ${packageName}`);
+  }
+  return bundle;
+}
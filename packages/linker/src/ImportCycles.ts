@@ -0,0 +1,73 @@
+import { TreeImportElem } from "./AbstractElems.js";
+import { moduleReport } from "./LinkerLogging.js";
+import { moduleImports } from "./ModuleLoader.js";
+import { ParsedRegistry } from "./ParsedRegistry.js";
+import { TextModule } from "./ParseModule.js";
+
+/** an import from one text module to another */
+interface ImportEdge {
+  elem: TreeImportElem;
+  target: TextModule;
+}
+
+/**
+ * Report cycles of imports between the parsed text modules,
+ * e.g. if module a imports from b, and b imports from a.
+ * (the linker follows import cycles, but the linked wgsl typically
+ * contains recursive fns or structs, which WGSL doesn't allow)
+ *
+ * Each cycle is reported once, at the import that closes the cycle.
+ * Cycles through the same modules in a different order
+ * (e.g. a -> b -> c -> a and a -> c -> b -> a) are reported separately.
+ */
+export function reportImportCycles(parsed: ParsedRegistry): void {
+  const { textModules } = parsed;
+  const edges = new Map(textModules.map((m) => [m, importEdges(m, parsed)]));
+  const reported = new Set<string>();
+
+  // find each cycle from its first module in textModules order,
+  // following imports through the modules later in the order
+  textModules.forEach((start, i) => {
+    const later = new Set(textModules.slice(i + 1));
+    const stack: TextModule[] = [start];
+
+    const visit = (module: TextModule): void => {
+      edges.get(module)?.forEach(({ elem, target }) => {
+        if (target === start) {
+          const key = cycleKey(stack);
+          if (!reported.has(key)) {
+            reported.add(key);
+            const paths = [...stack, start].map((m) => m.modulePath);
+            const msg = `import cycle: ${paths.join(" -> ")}`;
+            const pos: [number, number] = [elem.start, elem.end - 1];
+            moduleReport(module, pos, "import-cycle", msg);
+          }
+        } else if (later.has(target) && !stack.includes(target)) {
+          stack.push(target);
+          visit(target);
+          stack.pop();
+        }
+      });
+    };
+    visit(start);
+  });
+}
+
+/** @return the module paths of a cycle in import order, starting from the smallest path
+ * (the same for each rotation of the cycle) */
+function cycleKey(cycle: TextModule[]): string {
+  const paths = cycle.map((m) => m.modulePath);
+  const smallest = paths.indexOf([...paths].sort()[0]);
+  const rotated = [...paths.slice(smallest), ...paths.slice(0, smallest)];
+  return rotated.join(" -> ");
+}
+
+/** @return the text modules imported by a module */
+function importEdges(module: TextModule, parsed: ParsedRegistry): ImportEdge[] {
+  return moduleImports(module).flatMap(({ elem, modulePaths }) => {
+    const found = modulePaths
+      .map((p) => parsed.findTextModule(p))
+      .find((m) => m);
+    return found ? [{ elem, target: found }] : [];
+  });
+}
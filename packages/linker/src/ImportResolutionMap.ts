@@ -6,7 +6,7 @@ import {
   SimpleSegment,
   Wildcard,
 } from "./ImportTree.js";
-import { moduleLog } from "./LinkerLogging.js";
+import { moduleReport } from "./LinkerLogging.js";
 import {
   GeneratorExport,
   GeneratorModule,
@@ -142,7 +142,8 @@ function resolveTreeImport(
       if (m) {
         return wildCardExports(m, resolvedImportPath, resolvedExportPath);
       } else {
-        console.error("no module found", modulePath); // LATER point to source location in error
+        const msg = `no module found: ${modulePath}`;
+        moduleReport(importingModule, imp.start, "module-not-found", msg);
       }
       return [];
     } else if (segment instanceof ImportTree) {
@@ -229,9 +230,15 @@ function matchExportImportArgs(
 ): StringPairs {
   const expArgs = exp.args ?? [];
   if (expArgs.length !== impArgs.length) {
-    impMod.kind === "text" &&
-      moduleLog(impMod, imp.start, "mismatched import and export params");
-    expMod.kind === "text" && moduleLog(expMod, (exp as ExportElem).start);
+    const msg = "mismatched import and export params";
+    if (impMod.kind === "text") {
+      moduleReport(impMod, imp.start, "import-args", msg);
+    }
+    if (expMod.kind === "text") {
+      const expMsg = `export params don't match the import in ${impMod.modulePath}`;
+      const { start } = exp as ExportElem;
+      moduleReport(expMod, start, "import-args", expMsg);
+    }
   }
   return expArgs.map((p, i) => [p, impArgs[i]]);
 }
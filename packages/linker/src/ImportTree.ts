@@ -42,3 +42,20 @@ function segmentToString(segment: PathSegment): string {
   }
   throw new Error(`unknown segment type ${segment}`);
 }
+
+/** @return each path through import tree segments,
+ * e.g. [[a, b], [a, c]] for a/{b, c} (a wildcard ends a path) */
+export function flatImportPaths(segments: PathSegment[]): SimpleSegment[][] {
+  const [segment, ...rest] = segments;
+  if (!segment) return [[]];
+  const restPaths = flatImportPaths(rest);
+  const heads = segmentPaths(segment);
+  return heads.flatMap((h) => restPaths.map((r) => [...h, ...r]));
+}
+
+function segmentPaths(segment: PathSegment): SimpleSegment[][] {
+  if (segment instanceof SimpleSegment) return [[segment]];
+  if (segment instanceof ImportTree) return flatImportPaths(segment.segments);
+  if (segment instanceof SegmentList) return segment.list.flatMap(segmentPaths);
+  return [[]]; // wildcard
+}
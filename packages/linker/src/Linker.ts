@@ -1,17 +1,31 @@
 import { dlog } from "berry-pretty";
+import { SrcMap } from "mini-parse";
 import {
-  AliasElem,
+  CallElem,
   FnElem,
   GlobalDirectiveElem,
   StructElem,
   StructMemberElem,
   TypeRefElem,
   VarElem,
+  VarRefElem,
 } from "./AbstractElems.js";
-import { refLog } from "./LinkerLogging.js";
+import {
+  allocateBindings,
+  BindingEntry,
+  BindingOptions,
+  bindingSlices,
+} from "./Bindings.js";
+import { Diagnostic } from "./Diagnostics.js";
+import { refReport } from "./LinkerLogging.js";
 import { ParsedRegistry } from "./ParsedRegistry.js";
 import { TextModule } from "./ParseModule.js";
-import { SliceReplace, sliceReplace } from "./Slicer.js";
+import {
+  concatSrcMaps,
+  SliceReplace,
+  sliceReplace,
+  sliceWords,
+} from "./Slicer.js";
 import {
   FoundRef,
   GeneratorRef,
@@ -19,8 +33,9 @@ import {
   refName,
   traverseRefs,
 } from "./TraverseRefs.js";
-import { partition, replaceWords } from "./Util.js";
+import { partition } from "./Util.js";
 import { printRef } from "./RefDebug.js";
+import { isLocal } from "./Scope.js";
 
 type DirectiveRef = {
   kind: "dir";
@@ -30,19 +45,71 @@ type DirectiveRef = {
 
 type LoadableRef = TextRef | GeneratorRef | DirectiveRef;
 
+/** linked wgsl text, along with a map back to the original module sources */
+export interface LinkResult {
+  /** linked wgsl text */
+  dest: string;
+
+  /** map from positions in the linked text to positions in the module srcs.
+   * (srcPath in the mapped positions is the module path) */
+  srcMap: SrcMap;
+
+  /** problems found while parsing and linking */
+  diagnostics: Diagnostic[];
+
+  /** group and binding of each resource var (if the linker is allocating bindings) */
+  bindings?: BindingEntry[];
+}
+
+/** linked wgsl, along with a map back to the module srcs and any allocated bindings */
+export interface LinkedWgsl {
+  srcMap: SrcMap;
+  bindings?: BindingEntry[];
+}
+
 /**
  * Produce a linked wgsl string with all directives processed
  * (e.g. #import'd functions from other modules are inserted into the resulting string).
  *
  * @param runtimeParams runtime parameters for #import/#export values,
  *  template values, and code generation parameters
+ * @param bindingOptions if provided, assign non conflicting @group and @binding
+ *  numbers to resource vars
  */
 export function linkWgslModule(
   srcModule: TextModule,
   registry: ParsedRegistry,
-  extParams: Record<string, any> = {}
+  extParams: Record<string, any> = {},
+  bindingOptions?: BindingOptions
 ): string {
+  return linkWgsl(srcModule, registry, extParams, bindingOptions).srcMap.dest;
+}
+
+/**
+ * Produce a linked wgsl string as in linkWgslModule,
+ * along with a SrcMap from the linked text back to the original module srcs.
+ * (the SrcMap combines mappings from conditionals, templates and renaming)
+ */
+export function linkWgslSrcMap(
+  srcModule: TextModule,
+  registry: ParsedRegistry,
+  extParams: Record<string, any> = {}
+): SrcMap {
+  return linkWgsl(srcModule, registry, extParams).srcMap;
+}
+
+/**
+ * Produce a linked wgsl string and SrcMap as in linkWgslSrcMap,
+ * optionally allocating @group and @binding numbers for resource vars.
+ */
+export function linkWgsl(
+  srcModule: TextModule,
+  registry: ParsedRegistry,
+  extParams: Record<string, any> = {},
+  bindingOptions?: BindingOptions
+): LinkedWgsl {
   const refs = findReferences(srcModule, registry); // all recursively referenced structs and fns
+  const bindings = bindingOptions && allocateBindings(refs, bindingOptions);
 
   // mix the merge refs into the import/export refs
   const loadRefs = prepRefsMergeAndLoad(refs);
@@ -52,7 +119,8 @@ export function linkWgslModule(
 
   // extract export texts, rewriting via rename map and exp/imp args
   const extractRefs = [...loadRefs, ...directiveRefs];
-  return extractTexts(extractRefs, extParams);
+  const srcMap = extractTexts(extractRefs, extParams);
+  return { srcMap, bindings };
 }
 
 /** Find references to elements like structs and fns to import into the linked result.
@@ -71,7 +139,11 @@ export function findReferences(
   // accumulates all elements to add to the linked result
   const found: FoundRef[] = [];
 
+  // all visited references to each element, by full name
+  const fullNameRefs = new Map<string, FoundRef[]>();
+
   traverseRefs(srcModule, registry, refVisit);
+  avoidCaptures();
   return found;
 
   /**
@@ -91,6 +163,52 @@ export function findReferences(
 
     // always set the rename field to make sure we rewrite calls with module path prefixes
     ref.rename = linkName; // TODO only set if necessary
+
+    const refs = fullNameRefs.get(fullName) ?? [];
+    refs.push(ref);
+    fullNameRefs.set(fullName, refs);
+  }
+
+  /**
+   * Rename elements again if their link name would be captured by a local
+   * declaration (e.g. a fn param) at some call site or type reference.
+   * (the new names may also be captured, so repeat until stable)
+   */
+  function avoidCaptures(): void {
+    // names that can't be used for a particular element
+    const reserved = new Map<string, Set<string>>();
+
+    for (let captured = capturedRefs(); captured.length; ) {
+      captured.forEach(([fullName, ref]) => {
+        const avoid = reserved.get(fullName) ?? new Set();
+        avoid.add(ref.rename!);
+        reserved.set(fullName, avoid);
+
+        const taken = new Set([...rootNames, ...avoid]);
+        const linkName = uniquifyName(ref.proposedName, taken);
+        rootNames.add(linkName);
+        fullNameRefs.get(fullName)?.forEach((r) => (r.rename = linkName));
+      });
+      captured = capturedRefs();
+    }
+  }
+
+  /** @return references renamed to a name that's locally declared where they're used */
+  function capturedRefs(): [string, FoundRef][] {
+    const captured = new Map<string, FoundRef>();
+    found.forEach((ref) => {
+      if (ref.kind !== "txt" || ref.elem.kind !== "fn") return;
+      const { scope, calls, typeRefs, varRefs } = ref.elem;
+      [...calls, ...typeRefs, ...varRefs].forEach(
+        ({ ref: target, name, start }) => {
+          const rename = target?.rename;
+          if (rename && rename !== name && isLocal(scope, rename, start)) {
+            captured.set(refFullName(target), target);
+          }
+        }
+      );
+    });
+    return [...captured];
   }
 }
 
@@ -136,7 +254,7 @@ export function refFullName(ref: FoundRef): string {
  *
  * @return the set of refs that will be loaded
  */
-function prepRefsMergeAndLoad(refs: FoundRef[]): FoundRef[] {
+export function prepRefsMergeAndLoad(refs: FoundRef[]): FoundRef[] {
   const { generatorRefs, mergeRefs, nonMergeRefs } = partitionRefTypes(refs);
   const expRefs = combineMergeRefs(mergeRefs, nonMergeRefs);
 
@@ -221,68 +339,80 @@ function toDirectiveRef(
   };
 }
 
-// LATER rename imported vars or aliases
+/** load the text of a var, alias, struct member or global directive */
 function loadOtherElem(
   ref: TextRef | DirectiveRef,
   extParams: Record<string, string>
-): string {
+): SrcMap {
   const { expMod, elem } = ref;
-  const typeRefs = (elem as VarElem | AliasElem).typeRefs ?? [];
-  const slicing = typeRefSlices(typeRefs);
-  const srcMap = sliceReplace(expMod.preppedSrc, slicing, elem.start, elem.end);
-  // LATER propogate srcMap
+  const slicing: SliceReplace[] = [];
 
-  return applyExpImp(srcMap.dest, ref, extParams);
+  const rename = ref.kind === "txt" && ref.rename;
+  if (rename && (elem.kind === "var" || elem.kind === "alias")) {
+    const { start, end } = elem.nameElem;
+    slicing.push({ start, end, replacement: rename });
+  }
+
+  const binding = ref.kind === "txt" && ref.binding;
+  if (binding && elem.kind === "var") {
+    slicing.push(...bindingSlices(elem, binding));
+  }
+
+  const { typeRefs = [], calls = [], varRefs = [] } = elem as Partial<VarElem>;
+  slicing.push(...refSlices([...calls, ...typeRefs, ...varRefs]));
+  const srcMap = moduleSlice(expMod, slicing, elem.start, elem.end);
+
+  return applyExpImp(srcMap, ref, extParams);
 }
 
 function loadGeneratedElem(
   ref: GeneratorRef,
   extParams: Record<string, string>
-): string {
+): SrcMap {
   const genExp = ref.expMod.exports.find((e) => e.name === ref.name);
   if (!genExp) {
-    refLog(ref, "missing generator", ref.name);
-    return "//?";
+    refReport(ref, "missing-generator", "missing generator", ref.name);
+    return new SrcMap("//?");
   }
   const fnName = ref.rename ?? ref.proposedName ?? ref.name;
   const params = refExpImp(ref, extParams);
 
   const text = genExp?.generate(fnName, params);
-  return text;
+  return new SrcMap(text); // generated text has no wgsl src to map to
 }
 
 /** load exported text for an import */
 function extractTexts(
   refs: LoadableRef[],
   extParams: Record<string, string>
-): string {
-  return refs
-    .map((r) => {
-      if (r.kind === "gen") {
-        return loadGeneratedElem(r, extParams);
+): SrcMap {
+  const srcMaps = refs.flatMap((r) => {
+    if (r.kind === "gen") {
+      return [loadGeneratedElem(r, extParams)];
+    }
+    if (r.kind === "txt") {
+      const elemKind = r.elem.kind;
+      if (elemKind === "fn") {
+        return [loadFnText(r.elem, r, extParams)];
       }
-      if (r.kind === "txt") {
-        const elemKind = r.elem.kind;
-        if (elemKind === "fn") {
-          return loadFnText(r.elem, r, extParams);
-        }
-        if (elemKind === "struct") {
-          return loadStruct(r, extParams);
-        }
-        if (elemKind === "var" || elemKind === "alias") {
-          return loadOtherElem(r, extParams);
-        }
-        console.warn("can't extract. unexpected elem kind:", elemKind, r.elem);
+      if (elemKind === "struct") {
+        return [loadStruct(r, extParams)];
       }
-      if (r.kind === "dir") {
-        return loadOtherElem(r, extParams);
+      if (elemKind === "var" || elemKind === "alias") {
+        return [loadOtherElem(r, extParams)];
       }
-    })
-    .join("\n\n");
+      console.warn("can't extract. unexpected elem kind:", elemKind, r.elem);
+    }
+    if (r.kind === "dir") {
+      return [loadOtherElem(r, extParams)];
+    }
+    return [new SrcMap("")];
+  });
+  return concatSrcMaps(srcMaps, "\n\n");
 }
 
 /** load a struct text, mixing in any elements from #extends */
-function loadStruct(ref: TextRef, extParams: Record<string, string>): string {
+function loadStruct(ref: TextRef, extParams: Record<string, string>): SrcMap {
   const structElem = ref.elem as StructElem;
 
   const rootMembers =
@@ -296,17 +426,40 @@ function loadStruct(ref: TextRef, extParams: Record<string, string>): string {
       );
     }) ?? [];
 
-  const allMembers = [rootMembers, newMembers].flat().map((m) => "  " + m);
-  const membersText = allMembers.join(",\n");
+  const allMembers = [rootMembers, newMembers]
+    .flat()
+    .map((m) => concatSrcMaps([new SrcMap("  "), m]));
+  const membersMap = concatSrcMaps(allMembers, ",\n");
   const name = ref.rename || structElem.name;
-  return `struct ${name} {\n${membersText}\n}`;
+  const header = structHeader(ref.expMod, structElem, name);
+  const open = new SrcMap(" {\n");
+  const close = new SrcMap("\n}");
+  return concatSrcMaps([header, open, membersMap, close]);
+}
+
+/** @return 'struct name' text, mapped to the struct declaration in the module src */
+function structHeader(
+  mod: TextModule,
+  structElem: StructElem,
+  name: string
+): SrcMap {
+  const text = `struct ${name}`;
+  const { preppedSrc } = mod;
+  const entry = {
+    src: preppedSrc,
+    srcStart: structElem.start,
+    srcEnd: structElem.nameElem.end,
+    destStart: 0,
+    destEnd: text.length,
+  };
+  return moduleSrcMap(mod).merge(new SrcMap(text, [entry]));
 }
 
 function loadMemberText(
   member: StructMemberElem,
   ref: TextRef,
   extParams: Record<string, string>
-): string {
+): SrcMap {
   const newRef = { ...ref, elem: member };
   return loadOtherElem(newRef, extParams);
 }
@@ -322,7 +475,8 @@ function refExpImp(
       const value = extParams[imp.slice(4)];
       if (value) return [exp, value];
 
-      refLog(ref, "missing ext param", imp, extParams);
+      const msg = `missing ext param: ${imp}`;
+      refReport(ref, "missing-ext-param", msg, extParams);
     }
     return [exp, imp];
   });
@@ -333,7 +487,7 @@ function loadFnText(
   elem: FnElem,
   ref: TextRef,
   extParams: Record<string, string>
-): string {
+): SrcMap {
   const { rename } = ref;
   const slicing: SliceReplace[] = [];
 
@@ -342,42 +496,60 @@ function loadFnText(
     slicing.push({ start, end, replacement: rename });
   }
 
-  elem.calls.forEach((call) => {
-    const rename = call?.ref?.rename;
-    if (rename) {
-      const { start, end } = call;
-      slicing.push({ start, end, replacement: rename });
-    }
-  });
-
-  slicing.push(...typeRefSlices(elem.typeRefs));
-
-  const srcMap = sliceReplace(
-    ref.expMod.preppedSrc,
-    slicing,
-    elem.start,
-    elem.end
+  slicing.push(
+    ...refSlices([...elem.calls, ...elem.typeRefs, ...elem.varRefs])
   );
 
-  return applyExpImp(srcMap.dest, ref, extParams);
+  const srcMap = moduleSlice(ref.expMod, slicing, elem.start, elem.end);
+
+  return applyExpImp(srcMap, ref, extParams);
 }
 
 /** rewrite the src text according to module templating and exp/imp params */
 function applyExpImp(
-  src: string,
+  srcMap: SrcMap,
   ref: TextRef | DirectiveRef,
   extParams: Record<string, string>
-): string {
+): SrcMap {
   const params = ref.kind === "txt" ? refExpImp(ref, extParams) : {};
-  return replaceWords(src, params);
+  const slices = sliceWords(srcMap.dest, params);
+  if (!slices.length) return srcMap;
+
+  return srcMap.merge(sliceReplace(srcMap.dest, slices));
+}
+
+/** slice a portion of the module's preprocessed text,
+ * @return a SrcMap from the module's original src to the sliced text */
+function moduleSlice(
+  mod: TextModule,
+  slicing: SliceReplace[],
+  start: number,
+  end: number
+): SrcMap {
+  const sliced = sliceReplace(mod.preppedSrc, slicing, start, end);
+  if (!sliced.entries.length) return sliced;
+
+  return moduleSrcMap(mod).merge(sliced);
+}
+
+/** @return the module's preprocessing SrcMap, with src entries named by module path */
+function moduleSrcMap(mod: TextModule): SrcMap {
+  const { srcMap, src, modulePath } = mod;
+  const entries = srcMap.entries.map((e) =>
+    e.src === src ? { ...e, srcPath: modulePath } : e
+  );
+  return new SrcMap(srcMap.dest, entries);
 }
 
-function typeRefSlices(typeRefs: TypeRefElem[]): SliceReplace[] {
+/** @return slices to rewrite references to renamed elements */
+export function refSlices(
+  refElems: (CallElem | TypeRefElem | VarRefElem)[]
+): SliceReplace[] {
   const slicing: SliceReplace[] = [];
-  typeRefs.forEach((typeRef) => {
-    const rename = typeRef?.ref?.rename;
+  refElems.forEach((refElem) => {
+    const rename = refElem?.ref?.rename;
     if (rename) {
-      const { start, end } = typeRef;
+      const { start, end } = refElem;
       slicing.push({ start, end, replacement: rename });
     }
   });
@@ -1,27 +1,48 @@
 import { logger, srcLog } from "mini-parse";
 import { AbstractElem } from "./AbstractElems.js";
+import {
+  DiagnosticCode,
+  report,
+  srcReport,
+  withModulePath,
+} from "./Diagnostics.js";
 import { TextModule } from "./ParseModule.js";
 import { FoundRef } from "./TraverseRefs.js";
 
-export function refLog(ref: FoundRef, ...msgs: any[]): void {
+/** report a problem with a referenced element as a diagnostic (or console log) */
+export function refReport(
+  ref: FoundRef,
+  code: DiagnosticCode,
+  message: string,
+  ...logMsgs: any[]
+): void {
   if (ref.kind !== "gen") {
-    moduleLog(ref.expMod, [ref.elem.start, ref.elem.end], ...msgs);
+    const pos: [number, number] = [ref.elem.start, ref.elem.end];
+    moduleReport(ref.expMod, pos, code, message, ...logMsgs);
   } else {
-    logger(ref.name, ...msgs);
+    const msg = `${message} (generator ${ref.expMod.modulePath}/${ref.name})`;
+    report(code, msg, () => logger(ref.name, message, ...logMsgs));
   }
 }
 
-export function moduleLog(
+/** report a problem at a module position as a diagnostic (or console log) */
+export function moduleReport(
   mod: TextModule,
   pos: number | [number, number],
-  ...msgs: any[]
+  code: DiagnosticCode,
+  message: string,
+  ...logMsgs: any[]
 ): void {
-  const { src, srcMap } = mod;
-  srcLog(
-    srcMap ?? src,
-    pos,
-    ...msgs,
-    ` module: ${mod.modulePath}`
+  const { src, srcMap, modulePath } = mod;
+  withModulePath(modulePath, () =>
+    srcReport(
+      srcMap ?? src,
+      pos,
+      code,
+      message,
+      ...logMsgs,
+      ` module: ${modulePath}`
+    )
   );
 }
 
@@ -14,7 +14,9 @@ const quote = /["']/;
 
 const longIdent = /[a-zA-Z_][\w.:]*/; // identifier that can include module path
 export const word = /[a-zA-Z_]\w*/; // LATER consider making this 'ident' per wgsl spec (incl. non-ascii)
-export const digits = /(?:0x)?[\d.]+[iuf]?/; // LATER parse more wgsl number variants
+/** wgsl numeric literals: decimal or hex ints and floats, with optional suffix */
+export const digits =
+  /0[xX](?:[\da-fA-F]*\.[\da-fA-F]*|[\da-fA-F]+)(?:[pP][+-]?\d+)?[fhiu]?|(?:\d+\.\d*|\.\d+|\d+)(?:[eE][+-]?\d+)?[fhiu]?/;
 
 /** matching tokens at wgsl root level */
 export const mainTokens = tokenMatcher(
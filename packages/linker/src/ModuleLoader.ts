@@ -0,0 +1,90 @@
+import { TreeImportElem } from "./AbstractElems.js";
+import { flatImportPaths } from "./ImportTree.js";
+import { TextModule } from "./ParseModule.js";
+import { dirname, normalize, rootRelativePath } from "./PathUtil.js";
+
+/**
+ * Loads wgsl src for modules on demand, as imports are discovered.
+ * (e.g. via fetch() in the browser, or from the filesystem in Node)
+ *
+ * @see ModuleRegistry.linkAsync()
+ */
+export interface ModuleLoader {
+  /**
+   * @param modulePath path to the module without a file suffix,
+   *  e.g. "./util/math" for modules in the root package,
+   *  or "rand/pcg" for modules in other packages ("rand" for the package's lib module)
+   * @return the wgsl src for the module, or undefined if there's no such module
+   */
+  load(modulePath: string): Promise<string | undefined>;
+}
+
+/** an import path in a module, and the modules it might refer to */
+export interface ModuleImport {
+  elem: TreeImportElem;
+
+  /** possible absolute module paths (e.g. _root/util/math), longest first */
+  modulePaths: string[];
+}
+
+/**
+ * @return the possible module paths for each import in a module,
+ * as absolute module paths (e.g. _root/util/math), longest first.
+ * (an import path continues past the module path to name an export,
+ * e.g. import ./util/math/dot refers to module ./util/math or to ./util)
+ */
+export function importedModulePaths(module: TextModule): string[][] {
+  return moduleImports(module).map((i) => i.modulePaths);
+}
+
+/** @return each import path in a module, with its possible module paths */
+export function moduleImports(module: TextModule): ModuleImport[] {
+  const treeImports = module.imports.filter(
+    (i): i is TreeImportElem => i.kind === "treeImport"
+  );
+  return treeImports.flatMap((elem) =>
+    importPathNames(elem).map((segments) => {
+      const modulePaths = candidatePaths(module.modulePath, segments);
+      return { elem, modulePaths };
+    })
+  );
+}
+
+/** @return absolute module paths that an import path might refer to, longest first */
+function candidatePaths(importingPath: string, segments: string[]): string[] {
+  const relative = segments[0] === "." || segments[0] === "..";
+  const joined = [dirname(importingPath), ...segments].join("/");
+  const absolute = relative ? normalize(joined).split("/") : segments;
+
+  // relative paths include the package name (e.g. _root/util)
+  const minLength = relative ? 2 : 1;
+  const lengths = absolute.map((_, i) => absolute.length - i);
+  return lengths
+    .filter((n) => n >= minLength)
+    .map((n) => absolute.slice(0, n).join("/"));
+}
+
+/** @return the names of the packages imported by a module, e.g. rand for import rand/pcg */
+export function importedPackages(module: TextModule): string[] {
+  const treeImports = module.imports.filter(
+    (i): i is TreeImportElem => i.kind === "treeImport"
+  );
+  const importPaths = treeImports.flatMap(importPathNames);
+  const names = importPaths
+    .map(([first]) => first)
+    .filter((first) => first && first !== "." && first !== "..");
+  return [...new Set(names)];
+}
+
+/** @return the loader's path for an absolute module path (e.g. ./util for _root/util) */
+export function loaderPath(modulePath: string): string {
+  const rootPath = rootRelativePath(modulePath);
+  return rootPath !== undefined ? "./" + rootPath : modulePath;
+}
+
+/** @return the segment names of each path through an import,
+ * e.g. [[a, b], [a, c]] for import a/{b, c} */
+export function importPathNames(elem: TreeImportElem): string[][] {
+  const paths = flatImportPaths(elem.imports.segments);
+  return paths.map((segments) => segments.map((s) => s.name));
+}
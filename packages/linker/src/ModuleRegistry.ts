@@ -1,7 +1,27 @@
 import { SrcMap } from "mini-parse";
+import { BindingOptions } from "./Bindings.js";
+import {
+  collectDiagnostics,
+  Diagnostic,
+  DiagnosticSink,
+  forwardDiagnostics,
+  recordDiagnostics,
+  reportWarning,
+  throwErrors,
+  withDiagnostics,
+} from "./Diagnostics.js";
+import { LinkResult } from "./Linker.js";
+import {
+  importedModulePaths,
+  loaderPath,
+  ModuleLoader,
+} from "./ModuleLoader.js";
+import { LinkCache, ParseCache } from "./ParseCache.js";
 import { ParsedRegistry } from "./ParsedRegistry.js";
+import { Reflection } from "./Reflect.js";
 import { TextExport, TextModule } from "./ParseModule.js";
-import { normalize } from "./PathUtil.js";
+import { normalize, noSuffix } from "./PathUtil.js";
+import { versionInRange } from "./VersionRange.js";
 import { WgslBundle } from "./WgslBundle.js";
 
 /** A named function to transform code fragments (e.g. by inserting parameters) */
@@ -65,7 +85,8 @@ export interface RegistryParams {
   /** record of file names and wgsl text for modules */
   wgsl?: Record<string, string>;
 
-  /** record of file names and wgsl text for modules */
+  /** bundles of wgsl packages
+   * (the bundles they depend on are registered too, unless already registered) */
   libs?: WgslBundle[];
 
   /** string template handlers for processing exported functions and structs */
@@ -73,6 +94,20 @@ export interface RegistryParams {
 
   /** code generation functions */
   generators?: RegisterGenerator[];
+
+  /** throw a LinkError from link() if any problems are found
+   * (e.g. unresolved references, missing templates or ext. params) */
+  strict?: boolean;
+
+  /** assign non conflicting @group and @binding numbers to resource vars
+   * from all linked modules (true, or options to pin particular vars) */
+  bindings?: boolean | BindingOptions;
+
+  /** number of link() results to keep for reuse (default 32, 0 to disable) */
+  linkCacheSize?: number;
+
+  /** load modules on demand (see linkAsync()) */
+  loader?: ModuleLoader;
 }
 
 const libExp = /\/lib\.w[eg]sl/i;
@@ -86,27 +121,34 @@ const libExp = /\/lib\.w[eg]sl/i;
  */
 export class ModuleRegistry {
   templates = new Map<string, ApplyTemplateFn>();
-  // map from absolute module path to wgsl/wesl src text
+  // map from absolute module path to wgsl/wesl src text (change via updateModule())
   wgslSrc = new Map<string, string>();
   generators = new Map<string, GeneratorModuleExport>();
+  strict = false;
+  bindings?: BindingOptions;
+  /** parsed modules, reused between links */
+  parseCache = new ParseCache();
+  /** recent link() results, reused for links with the same root module and params */
+  linkCache = new LinkCache<string>();
+  loader?: ModuleLoader;
+  /** problems found while registering libs (e.g. mismatched bundle versions),
+   * reported again with the parse problems of each link */
+  libDiagnostics: Diagnostic[] = [];
 
   constructor(args?: RegistryParams) {
     if (!args) return;
     const { wgsl = {}, templates = [], libs = [], generators } = args;
+    this.strict = args.strict ?? false;
+    const { bindings, linkCacheSize } = args;
+    this.bindings = bindings === true ? {} : bindings || undefined;
+    if (linkCacheSize !== undefined) this.linkCache.maxSize = linkCacheSize;
+    this.loader = args.loader;
 
     Object.entries(wgsl).forEach(([fileName, src]) =>
       this.wgslSrc.set(relativeToAbsolute(fileName, "_root"), src)
     );
 
-    libs.forEach(({ name, modules}) => {
-      Object.entries(modules).forEach(([fileName, src]) => {
-        const absPath = relativeToAbsolute(fileName, name);
-        const canonPath = libExp.test(absPath)
-          ? absPath.slice(0, -"/lib.wgsl".length)
-          : absPath;
-        this.wgslSrc.set(canonPath, src);
-      });
-    });
+    [, this.libDiagnostics] = recordDiagnostics(() => this.registerLibs(libs));
 
     templates && this.registerTemplate(...templates);
     generators?.map((g) => this.registerGenerator(g));
@@ -118,9 +160,186 @@ export class ModuleRegistry {
    * @param moduleName select the module to use as the root source
    * @param runtimeParams runtime parameters for #import/#export values,
    *  template values, and code generation parameters
+   * @param onDiagnostic receives any problems found while parsing and linking
+   *  (problems are logged to the console if no handler is provided)
+   * @throws LinkError in strict mode, if any problems are found
+   */
+  link(
+    moduleName: string,
+    runtimeParams: Record<string, any> = {},
+    onDiagnostic?: DiagnosticSink
+  ): string {
+    const linkFn = (): string => {
+      const cached = this.linkCache.get(moduleName, runtimeParams);
+      if (cached) {
+        forwardDiagnostics(this.libDiagnostics);
+        return cached.result;
+      }
+
+      const parsed = this.parsed(runtimeParams);
+      const [linked, problems] = recordDiagnostics(() =>
+        parsed.link(moduleName)
+      );
+      // results with problems aren't cached, so that every link reports the problems
+      // (problems registering libs are reported again with cached results)
+      const libProblems = this.libDiagnostics.length;
+      if (!problems.length && parsed.parseDiagnostics.length === libProblems) {
+        const paramNames = parsed.linkParamNames(moduleName);
+        this.linkCache.set(moduleName, runtimeParams, paramNames, linked);
+      }
+      return linked;
+    };
+    return onDiagnostic ? withDiagnostics(onDiagnostic, linkFn) : linkFn();
+  }
+
+  /**
+   * Link as in link(), after loading any modules that aren't yet registered
+   * with the registry's loader.
+   * (the root module, and modules reached through imports)
+   */
+  async linkAsync(
+    moduleName: string,
+    runtimeParams: Record<string, any> = {},
+    onDiagnostic?: DiagnosticSink
+  ): Promise<string> {
+    await this.load(moduleName, runtimeParams);
+    return this.link(moduleName, runtimeParams, onDiagnostic);
+  }
+
+  /**
+   * Load the modules needed to link a root module with the registry's loader.
+   *
+   * Modules are loaded as they're discovered:
+   * the registered modules are parsed to find imports of unregistered modules,
+   * the modules are loaded, and the process repeats
+   * until there are no more modules to load.
+   * (modules imported only within false #if conditions aren't loaded)
    */
-  link(moduleName: string, runtimeParams: Record<string, any> = {}): string {
-    return this.parsed(runtimeParams).link(moduleName);
+  async load(
+    moduleName: string,
+    runtimeParams: Record<string, any> = {}
+  ): Promise<void> {
+    const { loader } = this;
+    if (!loader) return;
+
+    const tried = new Set<string>();
+    const rootPath = moduleName.startsWith(".")
+      ? relativeToAbsolute(moduleName, "_root")
+      : moduleName;
+    let pending = this.hasModule(rootPath) ? [] : [[rootPath]];
+    do {
+      await Promise.all(pending.map((paths) => this.loadOne(paths, tried)));
+      // parse problems are reported when linking
+      const [parsed] = collectDiagnostics(() => this.parsed(runtimeParams));
+      pending = parsed.textModules
+        .flatMap(importedModulePaths)
+        .filter(
+          (paths) =>
+            !paths.some((p) => this.hasModule(p)) &&
+            paths.some((p) => !tried.has(p))
+        );
+    } while (pending.length);
+  }
+
+  /** load the first module found from a list of possible module paths */
+  private async loadOne(paths: string[], tried: Set<string>): Promise<void> {
+    for (const modulePath of paths) {
+      if (tried.has(modulePath)) continue;
+      tried.add(modulePath);
+      const src = await this.loader!.load(loaderPath(modulePath));
+      if (src !== undefined) {
+        this.addModule(modulePath, src);
+        return;
+      }
+    }
+  }
+
+  /** @return true if a module with the provided absolute path is registered */
+  private hasModule(modulePath: string): boolean {
+    if (this.wgslSrc.has(modulePath) || this.generators.has(modulePath)) {
+      return true;
+    }
+    return [...this.wgslSrc.keys()].some((k) => noSuffix(k) === modulePath);
+  }
+
+  /**
+   * List the runtime params that affect linking a module,
+   * e.g. the params named in #if and @if conditions of the linked modules.
+   * (the list may vary with the runtime params, e.g. if an #if selects an import)
+   * @param moduleName select the module to use as the root source
+   * @param runtimeParams runtime parameters as in link()
+   * @return the param names, or undefined if any param might affect the link
+   *  (e.g. if a linked module is templated)
+   */
+  linkConditions(
+    moduleName: string,
+    runtimeParams: Record<string, any> = {}
+  ): string[] | undefined {
+    const cached = this.linkCache.get(moduleName, runtimeParams);
+    if (cached) return cached.paramNames;
+
+    const [parsed] = collectDiagnostics(() => this.parsed(runtimeParams));
+    collectDiagnostics(() => parsed.link(moduleName, false));
+    return parsed.linkParamNames(moduleName);
+  }
+
+  /**
+   * Produce a linked wgsl string as in link(),
+   * along with a SrcMap from positions in the linked string
+   * to the module path and position in the original wgsl source.
+   * (e.g. to report errors from WebGPU's getCompilationInfo() in the original source)
+   * and any problems found while parsing the linked modules and linking.
+   * If allocating bindings, the result includes the group and binding of each resource var.
+   * @throws LinkError in strict mode, if any problems are found
+   */
+  linkWithSourceMap(
+    moduleName: string,
+    runtimeParams: Record<string, any> = {}
+  ): LinkResult {
+    const [parsed] = collectDiagnostics(() => this.parsed(runtimeParams));
+    const result = parsed.linkWithSourceMap(moduleName);
+    const parseDiagnostics = parsed.linkParseDiagnostics(moduleName);
+    const diagnostics = [...parseDiagnostics, ...result.diagnostics];
+    if (this.strict) throwErrors(diagnostics);
+    return { ...result, diagnostics };
+  }
+
+  /**
+   * Report the entry points, resource bindings (with any allocated group and binding numbers)
+   * and struct layouts of the linked wgsl, e.g. to build bind group layouts and buffers.
+   * @param moduleName select the module to use as the root source
+   * @param runtimeParams runtime parameters as in link()
+   */
+  reflect(
+    moduleName: string,
+    runtimeParams: Record<string, any> = {}
+  ): Reflection {
+    return this.parsed(runtimeParams).reflect(moduleName);
+  }
+
+  /**
+   * Add or replace the wgsl src for a module.
+   * Later links reparse only the modules that have changed
+   * (or that are affected by changed runtime params).
+   * @param fileName file name, as in the wgsl record passed to the constructor
+   */
+  updateModule(fileName: string, src: string): void {
+    this.addModule(relativeToAbsolute(fileName, "_root"), src);
+  }
+
+  /** add or replace the src for an absolute module path */
+  private addModule(modulePath: string, src: string): void {
+    if (!this.wgslSrc.has(modulePath)) this.parseCache.clearResolveMaps();
+    this.wgslSrc.set(modulePath, src);
+    this.linkCache.clear();
+  }
+
+  /** remove a module registered with the provided file name */
+  removeModule(fileName: string): void {
+    const modulePath = relativeToAbsolute(fileName, "_root");
+    this.wgslSrc.delete(modulePath);
+    this.parseCache.remove(modulePath);
+    this.linkCache.clear();
   }
 
   /** Parse the text modules in the registry */
@@ -142,11 +361,62 @@ export class ModuleRegistry {
     };
 
     this.generators.set(module.modulePath, { kind: "function", module, exp });
+    this.parseCache.clearResolveMaps();
+    this.linkCache.clear();
   }
 
   /** register a template processor  */
   registerTemplate(...templates: Template[]): void {
     templates.forEach((t) => this.templates.set(t.name, t.apply));
+    this.parseCache.clear();
+    this.linkCache.clear();
+  }
+
+  /**
+   * Register library bundles, and the bundles they depend on.
+   * The first bundle registered for a package is used,
+   * so directly provided libs take precedence over dependencies.
+   * A warning is reported if the registered version of a dependency
+   * isn't in the version range declared by the dependent bundle
+   * (or differs from the dependency's version, if no range is declared).
+   */
+  private registerLibs(libs: WgslBundle[]): void {
+    const registered = new Map<string, WgslBundle>();
+    const pending = libs.map((bundle) => ({ bundle, from: "", range: "" }));
+    for (let next = pending.shift(); next; next = pending.shift()) {
+      const { bundle, from, range: declared } = next;
+      const prev = registered.get(bundle.name);
+      if (!prev) {
+        registered.set(bundle.name, bundle);
+        this.registerBundle(bundle);
+        const { dependencies = [], dependencyVersions = {} } = bundle;
+        const deps = dependencies.map((d) => {
+          const range = dependencyVersions[d.name] ?? "";
+          return { bundle: d, from: bundle.name, range };
+        });
+        pending.push(...deps);
+      }
+      const { version } = prev ?? bundle;
+      const range = declared || bundle.version;
+      if (!versionInRange(version, range)) {
+        const dependent = from ? ` required by ${from}` : "";
+        reportWarning(
+          "bundle-version",
+          `package ${bundle.name} ${range}${dependent} doesn't match the registered version ${version}`
+        );
+      }
+    }
+  }
+
+  private registerBundle(bundle: WgslBundle): void {
+    const { name, modules } = bundle;
+    Object.entries(modules).forEach(([fileName, src]) => {
+      const absPath = relativeToAbsolute(fileName, name);
+      const canonPath = libExp.test(absPath)
+        ? absPath.slice(0, -"/lib.wgsl".length)
+        : absPath;
+      this.wgslSrc.set(canonPath, src);
+    });
   }
 }
 
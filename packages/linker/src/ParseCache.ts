@@ -0,0 +1,171 @@
+import { ResolveMap } from "./ImportResolutionMap.js";
+import { TextModule } from "./ParseModule.js";
+
+/** a parsed module, along with the inputs that produced it */
+interface CacheEntry {
+  src: string;
+  params: Record<string, any>;
+  defines: Record<string, any>;
+  module: TextModule;
+}
+
+/**
+ * Parsed modules from earlier links, for reuse by later links.
+ *
+ * A parsed module is reused if its src text and imported #defines are unchanged,
+ * and if the runtime params that affect the module have the same values.
+ * (a module that doesn't mention a param in its conditions is reused
+ * regardless of the value of that param)
+ */
+export class ParseCache {
+  /** parsed variants of each module, most recently used last */
+  private entries = new Map<string, CacheEntry[]>();
+
+  /** import resolution maps by importing module */
+  private resolveMaps = new WeakMap<TextModule, ResolveMap>();
+
+  /** @param maxVariants number of parsed variants to keep for each module */
+  constructor(private maxVariants = 16) {}
+
+  /** @return a cached parse of the module src, if one matches the params */
+  get(
+    modulePath: string,
+    src: string,
+    params: Record<string, any>,
+    defines: Record<string, any>
+  ): TextModule | undefined {
+    const entries = this.entries.get(modulePath);
+    const i =
+      entries?.findIndex(
+        (e) =>
+          e.src === src &&
+          sameValues(e.defines, defines) &&
+          sameParams(e.module.paramNames, e.params, params)
+      ) ?? -1;
+    if (!entries || i < 0) return undefined;
+
+    const [entry] = entries.splice(i, 1);
+    entries.push(entry);
+    return entry.module;
+  }
+
+  set(
+    modulePath: string,
+    src: string,
+    params: Record<string, any>,
+    defines: Record<string, any>,
+    module: TextModule
+  ): void {
+    const entries = this.entries.get(modulePath) ?? [];
+    entries.push({ src, params: { ...params }, defines, module });
+    if (entries.length > this.maxVariants) entries.shift();
+    this.entries.set(modulePath, entries);
+  }
+
+  /** @return a cached import resolution map for a module */
+  getResolveMap(
+    module: TextModule,
+    current: (m: TextModule) => boolean
+  ): ResolveMap | undefined {
+    const resolveMap = this.resolveMaps.get(module);
+    if (!resolveMap) return undefined;
+
+    // the map is stale if any of the imported modules have since been reparsed
+    const exportMods = [...resolveMap.exportMap.values()].map(
+      ({ modExp }) => modExp.module
+    );
+    const valid = exportMods.every((m) => m.kind !== "text" || current(m));
+    return valid ? resolveMap : undefined;
+  }
+
+  setResolveMap(module: TextModule, resolveMap: ResolveMap): void {
+    this.resolveMaps.set(module, resolveMap);
+  }
+
+  /** drop the cached parses of a module */
+  remove(modulePath: string): void {
+    this.entries.delete(modulePath);
+    this.clearResolveMaps();
+  }
+
+  /** drop cached import resolutions (e.g. after the set of modules changes) */
+  clearResolveMaps(): void {
+    this.resolveMaps = new WeakMap();
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.clearResolveMaps();
+  }
+}
+
+/** a link result, along with the inputs that produced it */
+export interface LinkEntry<T> {
+  moduleName: string;
+  params: Record<string, any>;
+  /** names of the params that affected the link (undefined for all params) */
+  paramNames?: string[];
+  result: T;
+}
+
+/**
+ * Recent link results, for reuse by later links from the same root module.
+ *
+ * A result is reused if the runtime params that affected the link have the same values,
+ * so that params unrelated to the linked modules don't cause cache misses.
+ * The least recently used results are dropped once the cache is full.
+ */
+export class LinkCache<T> {
+  private entries: LinkEntry<T>[] = [];
+
+  /** @param maxSize number of link results to keep */
+  constructor(public maxSize = 32) {}
+
+  get(
+    moduleName: string,
+    params: Record<string, any>
+  ): LinkEntry<T> | undefined {
+    const i = this.entries.findIndex(
+      (e) =>
+        e.moduleName === moduleName &&
+        sameParams(e.paramNames, e.params, params)
+    );
+    if (i < 0) return undefined;
+
+    const [entry] = this.entries.splice(i, 1);
+    this.entries.push(entry);
+    return entry;
+  }
+
+  set(
+    moduleName: string,
+    params: Record<string, any>,
+    paramNames: string[] | undefined,
+    result: T
+  ): void {
+    if (this.maxSize <= 0) return;
+    const entry = { moduleName, params: { ...params }, paramNames, result };
+    this.entries.push(entry);
+    if (this.entries.length > this.maxSize) this.entries.shift();
+  }
+
+  clear(): void {
+    this.entries = [];
+  }
+}
+
+/** @return true if the params referenced by a module have the same values */
+function sameParams(
+  paramNames: string[] | undefined,
+  a: Record<string, any>,
+  b: Record<string, any>
+): boolean {
+  if (!paramNames) return sameValues(a, b);
+  return paramNames.every((name) => a[name] === b[name]);
+}
+
+function sameValues(a: Record<string, any>, b: Record<string, any>): boolean {
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  return aKeys.length === bKeys.length && aKeys.every((k) => a[k] === b[k]);
+}
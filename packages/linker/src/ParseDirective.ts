@@ -1,4 +1,5 @@
 import {
+  ExtendedResult,
   Parser,
   anyThrough,
   kind,
@@ -8,11 +9,13 @@ import {
   req,
   seq,
   setTraceNames,
+  TagRecord,
   tokens,
   tracing,
   withSep
 } from "mini-parse";
-import { ExtendsElem } from "./AbstractElems.js";
+import { AttributeElem, ExtendsElem } from "./AbstractElems.js";
+import { attributeConditionExpr } from "./ConditionExpr.js";
 import { gleamImport } from "./GleamImport.js";
 import { ImportTree, SimpleSegment } from "./ImportTree.js";
 import {
@@ -160,14 +163,50 @@ function normalizeModulePath(name: string): string {
   return name;
 }
 
+/** @if(condition) attribute for WESL conditional compilation */
+export const ifAttribute = tokens(
+  mainTokens,
+  seq("@if", req("("), req(attributeConditionExpr), req(")"))
+)
+  .map((r) => {
+    const e = makeElem("attribute", r) as AttributeElem;
+    e.name = "if";
+    const text = r.src.slice(r.start, r.end);
+    e.params = [text.slice(text.indexOf("(") + 1, -1).trim()];
+    e.condition = r.value[2];
+    return e;
+  })
+  .tag("ifAttributes");
+
+/**
+ * Record the src range of a parsed element as the target of its @if attributes.
+ *
+ * (@if attributes of nested elements are claimed first by the nested elements,
+ * so the remaining unclaimed @if attributes belong to this element.)
+ */
+export function ifTarget<T, N extends TagRecord>(
+  p: Parser<T, N>
+): Parser<T, N> {
+  return p.map((r: ExtendedResult<T, N>) => {
+    const ifs: AttributeElem[] = (r.tags as TagRecord).ifAttributes ?? [];
+    const { start, end } = r;
+    ifs.filter((a) => !a.target).forEach((a) => (a.target = { start, end }));
+    return r.value;
+  });
+}
+
 export const directive = tokens(
   argsTokens,
   seq(
     repeat("\n"),
     or(
       exportDirective,
-      importDirective,
-      gleamImport,
+      ifTarget(
+        seq(
+          repeat(seq(ifAttribute, repeat("\n"))),
+          or(importDirective, gleamImport)
+        )
+      ),
       extendsDirective,
       moduleDirective
     )
@@ -195,6 +234,7 @@ if (tracing) {
     skipToEol,
     lineComment,
     moduleDirective,
+    ifAttribute,
     directive,
   });
 }
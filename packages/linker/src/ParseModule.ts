@@ -1,7 +1,8 @@
-import { srcLog, SrcMap } from "mini-parse";
+import { SrcMap } from "mini-parse";
 import {
   AbstractElem,
   AliasElem,
+  AttributeElem,
   ExportElem,
   ExtendsElem,
   FnElem,
@@ -12,7 +13,13 @@ import {
   TreeImportElem,
   VarElem,
 } from "./AbstractElems.js";
-import { processConditionals } from "./Conditionals.js";
+import { conditionParams, evaluateCondition } from "./ConditionExpr.js";
+import { processConditionalDefines } from "./Conditionals.js";
+import {
+  collectDiagnostics,
+  srcReport,
+  withModulePath,
+} from "./Diagnostics.js";
 import { ApplyTemplateFn } from "./ModuleRegistry.js";
 import { parseWgslD } from "./ParseWgslD.js";
 import { SliceReplace, sliceReplace } from "./Slicer.js";
@@ -34,16 +41,23 @@ export interface TextModule {
   /** original src for module */
   src: string;
 
-  /** src code after processing #if conditionals  */
+  /** src code after processing #if conditionals and @if attributes */
   preppedSrc: string;
 
   /** tracks changes through conditional processing for error reporting */
   srcMap: SrcMap;
+
+  /** values set by #export define, visible to importing modules */
+  exportDefines: Record<string, any>;
+
+  /** names of the runtime params that affect preprocessing and parsing the module
+   * (undefined if any param might, e.g. for templated modules) */
+  paramNames?: string[];
 }
 
-/** an export elem annotated with the fn/struct to which it refers */
+/** an export elem annotated with the fn/struct/var/alias to which it refers */
 export interface TextExport extends ExportElem {
-  ref: FnElem | StructElem;
+  ref: FnElem | StructElem | VarElem | AliasElem;
 }
 
 export function preProcess(
@@ -51,20 +65,43 @@ export function preProcess(
   params: Record<string, any> = {},
   templates: Map<string, ApplyTemplateFn> = new Map()
 ): SrcMap {
-  const condSrcMap = processConditionals(src, params);
-  return applyTemplate(condSrcMap, templates, params);
+  const conditioned = processConditionalDefines(src, params);
+  return applyTemplate(conditioned.srcMap, templates, conditioned.params);
 }
 
+/**
+ * @param defines #define values from imported modules
+ *  (the module's own #defines and the runtime params take precedence)
+ */
 export function parseModule(
   src: string,
   naturalModulePath: string,
   params: Record<string, any> = {},
-  templates: Map<string, ApplyTemplateFn> = new Map()
+  templates: Map<string, ApplyTemplateFn> = new Map(),
+  defines: Record<string, any> = {}
+): TextModule {
+  return withModulePath(naturalModulePath, () =>
+    parseModuleSrc(src, naturalModulePath, params, templates, defines)
+  );
+}
+
+function parseModuleSrc(
+  src: string,
+  naturalModulePath: string,
+  runtimeParams: Record<string, any>,
+  templates: Map<string, ApplyTemplateFn>,
+  defines: Record<string, any>
 ): TextModule {
-  const srcMap = preProcess(src, params, templates);
+  const conditioned = processConditionalDefines(src, runtimeParams, defines);
+  const { params, exportDefines } = conditioned;
+  const preMap = applyTemplate(conditioned.srcMap, templates, params);
+  const { srcMap, parsed, attributeParams } = parseConditional(preMap, params);
+  const templated = preMap !== conditioned.srcMap;
+  const paramNames = templated
+    ? undefined
+    : [...new Set([...conditioned.paramNames, ...attributeParams])];
 
   const preppedSrc = srcMap.dest;
-  const parsed = parseWgslD(preppedSrc, srcMap);
   const exports = findExports(parsed, srcMap);
   const fns = filterElems<FnElem>(parsed, "fn");
   const aliases = filterElems<AliasElem>(parsed, "alias");
@@ -87,10 +124,92 @@ export function parseModule(
   return {
     ...{ kind, src, srcMap, preppedSrc, modulePath },
     ...{ exports, fns, structs, vars, imports, template },
-    ...{ aliases, globalDirectives },
+    ...{ aliases, globalDirectives, exportDefines, paramNames },
   };
 }
 
+/**
+ * Parse wgsl, removing the elements with false @if attributes.
+ *
+ * If the src contains @if attributes, the declarations, members, statements
+ * and imports with false conditions are removed from the src text
+ * (along with the @if attributes themselves), and the src is parsed again.
+ * @return the parsed elements and the srcMap of the final src text,
+ *  and the names of the params referenced by the @if conditions
+ */
+function parseConditional(
+  srcMap: SrcMap,
+  params: Record<string, any>
+): { srcMap: SrcMap; parsed: AbstractElem[]; attributeParams: string[] } {
+  const src = srcMap.dest;
+  if (!src.includes("@if")) {
+    return { srcMap, parsed: parseWgslD(src, srcMap), attributeParams: [] };
+  }
+
+  // diagnostics are reported from the final parse
+  const [firstParsed] = collectDiagnostics(() => parseWgslD(src, srcMap));
+  const ifAttributes = filterElems<AttributeElem>(firstParsed, "attribute");
+  if (!ifAttributes.length) {
+    return { srcMap, parsed: parseWgslD(src, srcMap), attributeParams: [] };
+  }
+  const attributeParams = ifAttributes.flatMap((a) =>
+    a.condition ? conditionParams(a.condition) : []
+  );
+
+  const removed = ifAttributes.flatMap((attr) => {
+    const { condition, target } = attr;
+    if (!target) {
+      const msg =
+        "@if attribute without a declaration, member, statement or import";
+      srcReport(srcMap, [attr.start, attr.end], "parse", msg);
+      return [attr];
+    }
+    const keep = evaluateCondition(condition!, params);
+    return keep ? [attr] : [withExport(withComma(target))];
+  });
+  const slices = outermost(removed).map(({ start, end }) => ({
+    start,
+    end,
+    replacement: "",
+  }));
+  const removedMap = srcMap.merge(sliceReplace(src, slices));
+  const parsed = parseWgslD(removedMap.dest, removedMap);
+  return { srcMap: removedMap, parsed, attributeParams };
+
+  /** extend a removed range to include a following comma (e.g. for struct members) */
+  function withComma(range: SrcRange): SrcRange {
+    const comma = src.slice(range.end).match(/^\s*,/);
+    return comma ? { ...range, end: range.end + comma[0].length } : range;
+  }
+
+  /** extend a removed range to include a preceding export */
+  function withExport(range: SrcRange): SrcRange {
+    const exp = firstParsed.find(
+      (e) =>
+        e.kind === "export" &&
+        e.start < range.start &&
+        !src.slice(e.end, range.start).trim()
+    );
+    return exp ? { ...range, start: exp.start } : range;
+  }
+}
+
+interface SrcRange {
+  start: number;
+  end: number;
+}
+
+/** @return the ranges that aren't contained in other ranges (without duplicates) */
+function outermost(ranges: SrcRange[]): SrcRange[] {
+  return ranges.filter((r, i) =>
+    ranges.every((o, j) => {
+      const contains = o.start <= r.start && o.end >= r.end;
+      const same = o.start === r.start && o.end === r.end;
+      return j === i || !contains || (same && j > i);
+    })
+  );
+}
+
 export function filterElems<T extends AbstractElem>(
   parsed: AbstractElem[],
   kind: T["kind"]
@@ -98,6 +217,8 @@ export function filterElems<T extends AbstractElem>(
   return parsed.filter((e) => e.kind === kind) as T[];
 }
 
+const exportableKinds = ["fn", "struct", "var", "alias"];
+
 function findExports(parsed: AbstractElem[], srcMap: SrcMap): TextExport[] {
   const results: TextExport[] = [];
   const exports = findKind<ExportElem>(parsed, "export");
@@ -108,10 +229,12 @@ function findExports(parsed: AbstractElem[], srcMap: SrcMap): TextExport[] {
       next = parsed[++i];
     } while (next?.kind === "extends");
     if (elem.kind === "export") {
-      if (next?.kind === "fn" || next?.kind === "struct") {
-        results.push({ ...elem, ref: next });
+      if (next && exportableKinds.includes(next.kind)) {
+        const ref = next as TextExport["ref"];
+        results.push({ ...elem, ref });
       } else {
-        srcLog(srcMap, elem.start, `#export what? (#export a fn or struct)`);
+        const msg = `#export what? (#export a fn, struct, var or alias)`;
+        srcReport(srcMap, elem.start, "export-target", msg);
       }
     }
   });
@@ -130,7 +253,8 @@ function matchMergeImports(parsed: AbstractElem[], srcMap: SrcMap): void {
       next.extendsElems = next.extendsElems ?? [];
       next.extendsElems.push(extendsElem);
     } else {
-      srcLog(srcMap, extendsElem.start, `#extends not followed by a struct`);
+      const msg = `#extends not followed by a struct`;
+      srcReport(srcMap, extendsElem.start, "extends-target", msg);
     }
   });
 }
@@ -159,9 +283,10 @@ function applyTemplate(
   const templateName = foundTemplate[1];
   const templateFn = templates.get(templateName);
   if (!templateFn) {
-    srcLog(
+    srcReport(
       priorSrcMap,
       foundTemplate.index!,
+      "template-not-found",
       `template '${templateName}' not found in ModuleRegistry`
     );
     return priorSrcMap;
@@ -9,13 +9,13 @@ import {
   or,
   repeat,
   req,
-  resultLog,
   seq,
   setTraceName,
   tracing,
   withSep,
 } from "mini-parse";
 import { AbstractElem, AbstractElemBase } from "./AbstractElems.js";
+import { resultReport } from "./Diagnostics.js";
 import { argsTokens, mainTokens } from "./MatchWgslD.js";
 import { lineComment } from "./ParseDirective.js";
 
@@ -28,7 +28,8 @@ export const unknown = any().map((r) => {
   const { kind, text } = r.value;
   const deepName = r.ctx._debugNames.join(" > ");
   
-  resultLog(r, `??? ${kind}: '${text}'  ${deepName}`);
+  const message = `??? ${kind}: '${text}'  ${deepName}`;
+  resultReport(r, "unexpected-token", message);
   // throw new Error("Fail fast");
 });
 
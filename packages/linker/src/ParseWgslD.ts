@@ -1,40 +1,46 @@
 import {
-  anyNot,
   anyThrough,
   eof,
   ExtendedResult,
   kind,
   matchingLexer,
+  not,
   opt,
   or,
   Parser,
-  ParserContext,
   ParserInit,
   preParse,
   repeat,
   req,
   seq,
   setTraceName,
-  simpleParser,
   SrcMap,
   tokens,
   tracing,
   withSep,
+  withTags,
 } from "mini-parse";
-import { AbstractElem, TypeNameElem, TypeRefElem } from "./AbstractElems.js";
-import { identTokens, mainTokens } from "./MatchWgslD.js";
-import { directive } from "./ParseDirective.js";
 import {
-  comment,
-  makeElem,
-  unknown,
-  word,
-  wordNumArgs,
-} from "./ParseSupport.js";
+  AbstractElem,
+  AttributeElem,
+  CallElem,
+  FnParamElem,
+  LocalDecl,
+  TypeNameElem,
+  TypeRefElem,
+  TypeSpecElem,
+  VarNameElem,
+  VarRefElem,
+} from "./AbstractElems.js";
+import { identTokens, mainTokens } from "./MatchWgslD.js";
+import { directive, ifAttribute, ifTarget } from "./ParseDirective.js";
+import { comment, makeElem, unknown, word } from "./ParseSupport.js";
+import { fnScope, isLocal, ScopeRange } from "./Scope.js";
 
 /** parser that recognizes key parts of WGSL and also directives like #import */
 
 const longIdent = kind(identTokens.longIdent);
+const digits = kind(mainTokens.digits);
 
 // prettier gets confused if we leave the quoted parens inline so make consts for them here
 const lParen = "(";
@@ -45,69 +51,153 @@ export interface ParseState {
   params: Record<string, any>; // user provided params to templates, code gen and #if directives
 }
 
-const optAttributes = repeat(seq(kind(mainTokens.attr), opt(wordNumArgs)));
-const possibleTypeRef = Symbol("typeRef");
+/** predeclared enumerants that may appear in template lists (they're not type references) */
+const enumerants = `function private workgroup uniform storage handle
+  read write read_write
+  rgba8unorm rgba8snorm rgba8uint rgba8sint rgba16uint rgba16sint rgba16float
+  r32uint r32sint r32float rg32uint rg32sint rg32float
+  rgba32uint rgba32sint rgba32float bgra8unorm`.split(/\s+/);
 
-const globalDirectiveOrAssert = seq(
-  or("diagnostic", "enable", "requires", "const_assert"),
-  req(anyThrough(";"))
-).map((r) => {
-  const e = makeElem("globalDirective", r);
-  r.app.state.push(e);
-});
+/** succeeds if the parser would match, but doesn't consume any tokens */
+function followedBy(arg: string | Parser<any, any>): Parser<true> {
+  return not(not(arg));
+}
 
 /** parse an identifier into a TypeNameElem */
 export const typeNameDecl = req(word.tag("name")).map((r) => {
   return makeElem("typeName", r, ["name"]) as TypeNameElem; // fix?
 });
 
+/** parse an identifier into a VarNameElem */
+const varNameDecl = req(word.tag("name")).map((r) => {
+  return makeElem("varName", r, ["name"]) as VarNameElem;
+});
+
 /** parse an identifier into a TypeNameElem */
 export const fnNameDecl = req(word.tag("name"), "missing fn name").map((r) => {
   return makeElem("fnName", r, ["name"]);
 });
 
-/** find possible references to user types (structs) in this possibly nested template */
+/** reference to a type, possibly via a module path (e.g. foo::Bar) */
+const typeRefName = tokens(identTokens, longIdent)
+  .map((r) => {
+    const e = makeElem("typeRef", r as ExtendedResult<any>);
+    e.name = r.value;
+    return e as TypeRefElem;
+  })
+  .tag("typeRefs");
+
+/** elements of a template list that aren't type references (e.g. address spaces) */
+const enumerant = word.map((r) => (enumerants.includes(r.value) ? r : null));
+
+const templateEnd = followedBy(or(",", ">"));
+
+const enumerantArg = seq(enumerant, templateEnd);
+
+// recursive grammar elements, defined below
+let expression: Parser<any> = null as any;
+let templateArgExpression: Parser<any> = null as any;
+let statement: Parser<any> = null as any;
+
+/** A template list, recording type references to user types (structs).
+ * The first template parameter that isn't an enumerant may be a type,
+ * (e.g. the MyStruct in array<MyStruct, 4>),
+ * following parameters are expressions (e.g. the 4). */
 export const template: Parser<any> = seq(
   "<",
+  repeat(seq(enumerantArg, ",")),
   or(
-    word.tag(possibleTypeRef), // only the first element of the template can be a type
-    () => template
+    enumerantArg,
+    seq(
+      typeRefName,
+      opt(() => template),
+      templateEnd
+    ),
+    () => templateArgExpression
   ),
   repeat(
-    or(
-      () => template,
-      anyNot(">") // we don't care about the rest of the template
+    seq(
+      ",",
+      or(enumerantArg, () => templateArgExpression)
     )
   ),
-  req(">")
+  opt(","),
+  ">"
 );
 
-/** find possible references to user structs in this type specifier and any templates */
+/** find references to user structs in this type specifier and any templates */
 export const typeSpecifier: Parser<TypeRefElem[]> = seq(
-  tokens(identTokens, longIdent.tag(possibleTypeRef)),
+  typeRefName,
   opt(template)
-).map((r) =>
-  r.tags[possibleTypeRef].map((name) => {
-    const e = makeElem("typeRef", r as ExtendedResult<any>);
-    e.name = name;
-    return e as Required<typeof e>;
-  })
+).map((r) => r.tags.typeRefs);
+
+/** a type specifier, recording its source text */
+const typeSpec = typeSpecifier.map((r) => {
+  const e = makeElem("typeSpec", r as ExtendedResult<any>);
+  e.text = r.src.slice(r.start, r.end);
+  e.typeRefs = r.value;
+  e.varRefs = r.tags.varRefs ?? [];
+  return e as TypeSpecElem;
+});
+
+/** source text of an attribute parameter, e.g. the 1 in @binding(1) */
+const attributeParam = seq(() => expression).map((r) =>
+  r.src.slice(r.start, r.end)
+);
+
+/** attributes with expression params, which may refer to module scope declarations
+ * (params of other attributes are enumerants, e.g. position in @builtin(position)) */
+const expressionAttributes =
+  `@workgroup_size @size @align @binding @group @id`.split(/\s+/);
+
+const attributeParams = opt(
+  seq(lParen, withSep(",", attributeParam), req(rParen))
 );
 
+/** @attribute or @attribute(expression, ...) */
+const wgslAttribute = or(
+  seq(
+    kind(mainTokens.attr).map((r) =>
+      expressionAttributes.includes(r.value) ? r.value : null
+    ),
+    attributeParams
+  ),
+  seq(kind(mainTokens.attr), withTags(attributeParams))
+).map((r) => {
+  const [attr, paramList] = r.value;
+  const e = makeElem("attribute", r);
+  e.name = attr.slice(1);
+  e.params = paramList?.[1] ?? [];
+  return e as AttributeElem;
+});
+
+const attribute = or(ifAttribute, wgslAttribute);
+
+const optAttributes = repeat(attribute);
+
+/** var<storage, read_write> style template (address space and access mode) */
+const varTemplate = seq("<", withSep(",", word.tag("varTemplate")), req(">"));
+
 export const structMember = seq(
-  optAttributes,
+  optAttributes.tag("attributes"),
   word.tag("name"),
   ":",
-  req(typeSpecifier.tag("typeRefs"))
+  req(typeSpec).tag("memberType")
 ).map((r) => {
-  return makeElem("member", r, ["name", "typeRefs"]);
+  const e = makeElem("member", r, ["name"]);
+  e.type = r.tags.memberType[0];
+  e.attributes = r.tags.attributes.flat();
+  e.typeRefs = r.tags.typeRefs;
+  e.varRefs = r.tags.varRefs ?? [];
+  return e;
 });
 
 export const structDecl = seq(
+  optAttributes,
   "struct",
   req(typeNameDecl).tag("nameElem"),
   req("{"),
-  withSep(",", structMember).tag("members"),
+  withSep(",", ifTarget(structMember)).tag("members"),
   req("}")
 ).map((r) => {
   const e = makeElem("struct", r, ["members"]);
@@ -117,105 +207,343 @@ export const structDecl = seq(
   r.app.state.push(e);
 });
 
-// keywords that can be followed by (), not to be confused with fn calls
-const callishKeyword = simpleParser("keyword", (ctx: ParserContext) => {
-  const keywords = ["if", "for", "while", "const_assert", "return"];
-  const token = ctx.lexer.next();
-  const text = token?.text;
-  if (text && keywords.includes(text)) {
-    return text;
-  }
-});
+/* --- expressions --- */
 
-export const fnCall = tokens(
-  identTokens,
-  seq(
+/** call to a fn or type constructor, e.g. foo(), foo::bar(), vec2<MyStruct>() */
+export const fnCall = seq(
+  tokens(
+    identTokens,
     longIdent
       .tag("name")
-      .map((r) => makeElem("call", r, ["name"]))
-      .tag("calls"), // we collect this in fnDecl, to attach to FnElem
-    "("
-  )
+      .map((r) => makeElem("call", r, ["name"]) as CallElem)
+      .tag("calls") // we collect this in fnDecl, to attach to FnElem
+  ),
+  opt(template),
+  lParen,
+  withSep(",", () => expression),
+  req(rParen)
 );
 
-// prettier-ignore
-const fnParam = seq(
-  optAttributes,
-  word,
-  opt(seq(":", req(typeSpecifier.tag("typeRefs"))))
+// an identifier that isn't a call, possibly with a module path
+const identExpression = or(
+  tokens(
+    identTokens,
+    longIdent.map((r) => (r.value.includes("::") ? r.value : null))
+  ),
+  word
+)
+  .map((r) => {
+    const e = makeElem("varRef", r as ExtendedResult<any>);
+    e.name = r.value;
+    return e as VarRefElem;
+  })
+  .tag("varRefs"); // we collect this in fnDecl and globalVar
+
+const literal = or("true", "false", digits);
+
+const parenExpression = seq(lParen, () => expression, req(rParen));
+
+const primaryExpression = or(literal, fnCall, identExpression, parenExpression);
+
+const postfix = or(
+  seq(".", req(word)),
+  seq("[", () => expression, req("]"))
 );
 
-const fnParamList = seq(lParen, withSep(",", fnParam), rParen);
+const unaryExpression = seq(
+  repeat(or("-", "!", "~", "*", "&")),
+  primaryExpression,
+  repeat(postfix)
+);
 
-// prettier-ignore
-const variableDecl = seq(
-  or("const", "var", "let", "override"), 
-  word, 
-  ":", 
-  req(typeSpecifier).tag("typeRefs")
+// binary operators that may appear in template arguments
+// (e.g. array<f32, N * 2>)
+const templateBinaryOp = or(
+  "+",
+  "-",
+  "*",
+  "/",
+  "%",
+  "&",
+  "|",
+  "^",
+  "==",
+  "!=",
+  "<=",
+  "<<"
 );
 
-// prettier-ignore
-const block: Parser<any> = seq(
-  "{",
-  repeat(
-    or(
-      callishKeyword,
-      fnCall,
-      () => block,
-      variableDecl,
-      anyNot("}")
-    )
-  ),
+// '>>' isn't a token (for template parsing), so we match shift right as two '>'
+const binaryOp = or(
+  seq(">", ">"),
+  templateBinaryOp,
+  "&&",
+  "||",
+  "<",
+  ">",
+  ">="
+);
+
+expression = seq(unaryExpression, repeat(seq(binaryOp, req(unaryExpression))));
+
+/** expression inside a template list, which ends at the first '>' */
+templateArgExpression = seq(
+  unaryExpression,
+  repeat(seq(templateBinaryOp, unaryExpression))
+);
+
+/* --- statements --- */
+
+/** let, var or const declaration in a fn body */
+const localVarDecl = seq(
+  or(seq("var", opt(varTemplate)), "let", "const"),
+  req(word).tag("localName"),
+  opt(seq(":", req(typeSpecifier))),
+  opt(seq("=", req(expression)))
+).map((r) => {
+  const name = r.tags.localName[0];
+  const decl: LocalDecl = { name, start: r.end };
+  return decl;
+});
+
+const localDeclaration = localVarDecl.tag("locals");
+
+const assignOp = or(
+  "=",
+  "+=",
+  "-=",
+  "*=",
+  "/=",
+  "%=",
+  "&=",
+  "|=",
+  "^=",
+  ">>=",
+  "<<="
+);
+
+// x = 1, x += 1, x++, _ = foo()
+const assignment = or(
+  seq("_", "=", req(expression)),
+  seq(unaryExpression, or("++", "--")),
+  seq(unaryExpression, assignOp, req(expression))
+);
+
+const forInit = or(localDeclaration, assignment, fnCall);
+const forUpdate = or(assignment, fnCall);
+
+/** skip an unrecognized token in a fn body (but not the end of the block) */
+const unknownStatement = seq(not("}"), unknown);
+
+const blockStatements = repeat(or(() => statement, unknownStatement));
+
+/** record the source range of a block or loop, for scoping local declarations */
+function scopeRange(r: ExtendedResult<any>): ScopeRange {
+  return { start: r.start, end: r.end };
+}
+
+const compoundStatement: Parser<any> = seq("{", blockStatements, req("}"))
+  .map(scopeRange)
+  .tag("scopes");
+
+const ifStatement = seq(
+  "if",
+  req(expression),
+  req(compoundStatement),
+  repeat(seq("else", "if", req(expression), req(compoundStatement))),
+  opt(seq("else", req(compoundStatement)))
+);
+
+const caseSelector = or("default", expression);
+
+const switchClause = or(
+  seq("case", withSep(",", caseSelector), opt(":"), req(compoundStatement)),
+  seq("default", opt(":"), req(compoundStatement))
+);
+
+const switchStatement = seq(
+  "switch",
+  req(expression),
+  optAttributes,
+  req("{"),
+  repeat(switchClause),
   req("}")
 );
 
-export const fnDecl = seq(
+const continuingStatement = seq(
+  "continuing",
+  optAttributes,
+  req(compoundStatement)
+);
+
+const loopStatement = seq(
+  "loop",
+  optAttributes,
+  req("{"),
+  repeat(or(continuingStatement, () => statement, unknownStatement)),
+  req("}")
+)
+  .map(scopeRange)
+  .tag("scopes");
+
+const forStatement = seq(
+  "for",
+  req(lParen),
+  opt(forInit),
+  req(";"),
+  opt(expression),
+  req(";"),
+  opt(forUpdate),
+  req(rParen),
+  req(compoundStatement)
+)
+  .map(scopeRange)
+  .tag("scopes");
+
+const whileStatement = seq("while", req(expression), req(compoundStatement));
+
+// prettier-ignore
+statement = ifTarget(seq(
   optAttributes,
+  or(
+    ";",
+    seq("return", opt(expression), req(";")),
+    ifStatement,
+    switchStatement,
+    loopStatement,
+    forStatement,
+    whileStatement,
+    seq("break", "if", req(expression), req(";")),
+    seq(or("break", "continue", "discard"), req(";")),
+    seq("const_assert", req(expression), req(";")),
+    compoundStatement,
+    seq(localDeclaration, req(";")),
+    seq(fnCall, ";"),
+    seq(assignment, req(";"))
+  )
+));
+
+/* --- global declarations --- */
+
+const globalDirectiveOrAssert = seq(
+  or("diagnostic", "enable", "requires", "const_assert"),
+  req(anyThrough(";"))
+).map((r) => {
+  const e = makeElem("globalDirective", r);
+  r.app.state.push(e);
+});
+
+const fnParam = seq(
+  optAttributes.tag("attributes"),
+  word.tag("paramName"),
+  opt(seq(":", req(typeSpec).tag("paramType")))
+).map((r) => {
+  const e = makeElem("param", r);
+  e.name = r.tags.paramName[0];
+  const type = r.tags.paramType?.[0];
+  if (type) e.type = type;
+  e.attributes = r.tags.attributes.flat();
+  return e as FnParamElem;
+});
+
+const fnParamList = seq(
+  lParen,
+  withSep(",", ifTarget(fnParam).tag("params")),
+  rParen
+);
+
+export const fnDecl = seq(
+  optAttributes.tag("fnAttributes"),
   "fn",
   req(fnNameDecl).tag("nameElem"),
   req(fnParamList),
-  opt(seq("->", optAttributes, typeSpecifier.tag("typeRefs"))),
-  req(block)
+  opt(
+    seq("->", optAttributes.tag("returnAttributes"), typeSpec.tag("returnType"))
+  ),
+  req(compoundStatement)
 ).map((r) => {
   const e = makeElem("fn", r);
   const nameElem = r.tags.nameElem[0];
   e.nameElem = nameElem as Required<typeof nameElem>;
   e.name = nameElem.name;
-  e.calls = r.tags.calls || [];
-  e.typeRefs = r.tags.typeRefs?.flat() || [];
+  e.attributes = r.tags.fnAttributes.flat();
+  e.params = r.tags.params ?? [];
+  const returnType = r.tags.returnType?.[0];
+  if (returnType) e.returnType = returnType;
+  e.returnAttributes = r.tags.returnAttributes?.flat() ?? [];
+
+  const params: string[] = r.tags.paramName ?? [];
+  const locals: LocalDecl[] = r.tags.locals ?? [];
+  const blocks: ScopeRange[] = r.tags.scopes ?? [];
+  const scope = fnScope(r.start, r.end, params, blocks, locals);
+  e.scope = scope;
+
+  const calls: CallElem[] = r.tags.calls ?? [];
+  const typeRefs: TypeRefElem[] = r.tags.typeRefs ?? [];
+  const varRefs: VarRefElem[] = r.tags.varRefs ?? [];
+  e.calls = calls.filter((c) => !isLocal(scope, c.name, c.start));
+  e.typeRefs = typeRefs.filter((t) => !isLocal(scope, t.name, t.start));
+  e.varRefs = varRefs.filter((v) => !isLocal(scope, v.name, v.start));
   r.app.state.push(e);
 });
 
 export const globalVar = seq(
-  optAttributes,
+  optAttributes.tag("attributes"),
   or("const", "override", "var"),
-  opt(template),
-  word.tag("name"),
-  opt(seq(":", req(typeSpecifier.tag("typeRefs")))),
+  opt(varTemplate),
+  varNameDecl.tag("nameElem"),
+  opt(seq(":", req(typeSpec).tag("varType"))),
+  opt(seq("=", expression)),
   req(anyThrough(";"))
 ).map((r) => {
-  const e = makeElem("var", r, ["name"]);
-  e.typeRefs = r.tags.typeRefs?.flat() || [];
+  const e = makeElem("var", r);
+  const nameElem = r.tags.nameElem[0];
+  e.nameElem = nameElem;
+  e.name = nameElem.name;
+  const type = r.tags.varType?.[0];
+  if (type) e.type = type;
+  e.typeRefs = r.tags.typeRefs ?? [];
+  e.attributes = r.tags.attributes?.flat() ?? [];
+  const [addressSpace, accessMode] = r.tags.varTemplate ?? [];
+  if (addressSpace) e.addressSpace = addressSpace;
+  if (accessMode) e.accessMode = accessMode;
+  e.calls = r.tags.calls ?? [];
+  e.varRefs = r.tags.varRefs ?? [];
   r.app.state.push(e);
 });
 
 export const globalAlias = seq(
+  optAttributes,
   "alias",
-  req(word.tag("name")),
+  req(typeNameDecl).tag("nameElem"),
   req("="),
-  req(typeSpecifier).tag("typeRefs"),
+  req(typeSpec).tag("aliasType"),
   req(";")
 ).map((r) => {
-  const e = makeElem("alias", r, ["name", "typeRefs"]);
+  const e = makeElem("alias", r);
+  const nameElem = r.tags.nameElem[0];
+  e.nameElem = nameElem;
+  e.name = nameElem.name;
+  e.type = r.tags.aliasType[0];
+  e.typeRefs = r.tags.typeRefs;
   r.app.state.push(e);
 });
 
-const globalDecl = or(fnDecl, globalVar, globalAlias, structDecl, ";");
+const globalDecl = or(
+  ifTarget(or(fnDecl, globalVar, globalAlias, structDecl)),
+  ";"
+);
 
 const rootDecl = or(globalDirectiveOrAssert, globalDecl, directive, unknown);
 
-const root = preParse(comment, seq(repeat(rootDecl), eof()));
+// @if attributes are collected at the end, for removing conditional elements
+const rootDecls = repeat(rootDecl).map((r) => {
+  const ifAttributes: AttributeElem[] = r.tags.ifAttributes ?? [];
+  r.app.state.push(...ifAttributes);
+  return r.value;
+});
+
+const root = preParse(comment, seq(rootDecls, eof()));
 
 export function parseWgslD(
   src: string,
@@ -246,14 +574,30 @@ export function parseWgslD(
 if (tracing) {
   const names: Record<string, Parser<unknown>> = {
     globalDirectiveOrAssert,
+    typeRefName,
+    enumerantArg,
     template,
     typeSpecifier,
+    attribute,
     structMember,
     structDecl,
     fnCall,
+    identExpression,
+    primaryExpression,
+    unaryExpression,
+    expression,
+    templateArgExpression,
+    localVarDecl,
+    assignment,
+    compoundStatement,
+    ifStatement,
+    switchStatement,
+    loopStatement,
+    forStatement,
+    whileStatement,
+    statement,
     fnParam,
     fnParamList,
-    block,
     fnDecl,
     globalVar,
     globalAlias,
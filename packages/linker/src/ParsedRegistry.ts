@@ -1,7 +1,21 @@
 import { dlog } from "berry-pretty";
 import { TreeImportElem } from "./AbstractElems.js";
+import {
+  collectDiagnostics,
+  Diagnostic,
+  forwardDiagnostics,
+  recordDiagnostics,
+  throwErrors,
+} from "./Diagnostics.js";
 import { importResolutionMap, ResolveMap } from "./ImportResolutionMap.js";
-import { linkWgslModule } from "./Linker.js";
+import { flatImportPaths, ImportTree } from "./ImportTree.js";
+import { allocateBindings } from "./Bindings.js";
+import {
+  findReferences,
+  LinkResult,
+  linkWgsl,
+  linkWgslModule,
+} from "./Linker.js";
 import {
   GeneratorExport,
   GeneratorModule,
@@ -13,37 +27,195 @@ import {
 } from "./ModuleRegistry.js";
 import { parseModule, TextExport, TextModule } from "./ParseModule.js";
 import { dirname, normalize, noSuffix } from "./PathUtil.js";
+import { Reflection, reflectRefs } from "./Reflect.js";
+
+const exportDefineRegex = /#export\s+define\b/;
 
 /** parse wgsl files and provided indexed access to modules and exports */
 export class ParsedRegistry {
-  private textModules: TextModule[] = [];
+  /** parsed text modules (one for each registered wgsl src) */
+  textModules: TextModule[] = [];
+
+  /** problems found while parsing the registered modules
+   * (including problems found while registering libs, see ModuleRegistry.libDiagnostics) */
+  parseDiagnostics: Diagnostic[];
+
+  /** import resolution maps by importing module, cached for the duration of one link
+   * (so that import problems are reported once per link) */
+  private resolveMaps = new Map<TextModule, ResolveMap>();
 
   constructor(
     public registry: ModuleRegistry,
     public conditions: Record<string, any> = {}
   ) {
     this.textModules = [];
-    this.registry.wgslSrc.forEach((src, fileName) => {
-      this.parseOneModule(src, conditions, fileName);
+    [, this.parseDiagnostics] = recordDiagnostics(() => {
+      forwardDiagnostics(registry.libDiagnostics);
+      this.parseModules(conditions);
     });
   }
 
-  link(moduleSpecifier: string): string {
+  /**
+   * @param strict if true, throw a LinkError listing all problems found
+   *  while parsing or linking rather than producing partially linked wgsl
+   */
+  link(moduleSpecifier: string, strict = this.registry.strict): string {
+    const module = this.findRootModule(moduleSpecifier);
+    this.resolveMaps.clear();
+    const { bindings } = this.registry;
+    if (!strict) {
+      return linkWgslModule(module, this, this.conditions, bindings);
+    }
+
+    const [linked, linkDiagnostics] = recordDiagnostics(() =>
+      linkWgslModule(module, this, this.conditions, bindings)
+    );
+    const parseDiagnostics = this.linkParseDiagnostics(moduleSpecifier);
+    throwErrors([...parseDiagnostics, ...linkDiagnostics]);
+    return linked;
+  }
+
+  /** link as in link(), also returning a SrcMap from the linked text to the module srcs,
+   * any problems found while linking, and any allocated bindings */
+  linkWithSourceMap(moduleSpecifier: string): LinkResult {
+    const module = this.findRootModule(moduleSpecifier);
+    this.resolveMaps.clear();
+    const { bindings: bindingOptions } = this.registry;
+    const [linked, diagnostics] = collectDiagnostics(() =>
+      linkWgsl(module, this, this.conditions, bindingOptions)
+    );
+    const { srcMap, bindings } = linked;
+    return { dest: srcMap.dest, srcMap, diagnostics, bindings };
+  }
+
+  /** report the entry points, resource bindings and struct layouts
+   * of the linked result, as the module would be linked by link() */
+  reflect(moduleSpecifier: string): Reflection {
+    const module = this.findRootModule(moduleSpecifier);
+    this.resolveMaps.clear();
+    const refs = findReferences(module, this);
+    const { bindings } = this.registry;
+    if (bindings) allocateBindings(refs, bindings);
+    return reflectRefs(refs);
+  }
+
+  /**
+   * @return the names of the runtime params that affected the most recent link
+   * from the root module, or undefined if any param might have
+   * (e.g. if a linked module is templated)
+   */
+  linkParamNames(moduleSpecifier: string): string[] | undefined {
+    const names = new Set<string>();
+    for (const m of this.linkedModules(moduleSpecifier)) {
+      if (!m.paramNames) return undefined;
+      m.paramNames.forEach((name) => names.add(name));
+      extParamNames(m).forEach((name) => names.add(name));
+    }
+    return [...names];
+  }
+
+  /**
+   * @return the parse problems in the modules linked from the root module,
+   * along with problems that aren't in a module
+   */
+  linkParseDiagnostics(moduleSpecifier: string): Diagnostic[] {
+    const linked = this.linkedModules(moduleSpecifier);
+    const paths = new Set(linked.map((m) => m.modulePath));
+    return this.parseDiagnostics.filter(
+      (d) => !d.modulePath || paths.has(d.modulePath)
+    );
+  }
+
+  /** @return the root module and the text modules it reaches through imports */
+  private linkedModules(moduleSpecifier: string): TextModule[] {
+    const linked = new Set([this.findRootModule(moduleSpecifier)]);
+    // import problems are reported by the link
+    collectDiagnostics(() => {
+      for (const m of linked) {
+        const { exportMap } = this.importResolveMap(m);
+        for (const { modExp } of exportMap.values()) {
+          if (modExp.kind === "text") linked.add(modExp.module);
+        }
+      }
+    });
+    return [...linked];
+  }
+
+  private findRootModule(moduleSpecifier: string): TextModule {
     const module = this.findTextModule(moduleSpecifier);
     if (!module) {
       throw new Error(`Module not found: ${moduleSpecifier}`);
     }
-    return linkWgslModule(module, this, this.conditions);
+    return module;
+  }
+
+  /**
+   * Parse the registered modules.
+   *
+   * If any module uses #export define, the modules are reparsed
+   * with the values exported from each module's imports,
+   * until the exported values stop changing.
+   * (a module's exported values may depend on values exported from its own imports)
+   */
+  private parseModules(params: Record<string, any>): void {
+    const srcs = [...this.registry.wgslSrc];
+    const parseAll = (defines: Record<string, any>[] = []): TextModule[] =>
+      srcs.map(([fileName, src], i) =>
+        this.cachedParse(src, fileName, params, defines[i])
+      );
+
+    if (!srcs.some(([, src]) => exportDefineRegex.test(src))) {
+      this.textModules = parseAll();
+      return;
+    }
+
+    // each pass reaches at least one more module along an import chain,
+    // so the values settle within one pass per module (unless a value toggles itself)
+    let defines: Record<string, any>[] = [];
+    for (let pass = 0; pass < srcs.length; pass++) {
+      // diagnostics are reported from the final parse
+      [this.textModules] = collectDiagnostics(() => parseAll(defines));
+      const imported = this.textModules.map((m) => this.importedDefines(m));
+      this.resolveMaps.clear();
+      if (sameDefines(imported, defines)) break;
+      defines = imported;
+    }
+    this.textModules = parseAll(defines);
   }
 
-  /** parse one module, register exports for later searching */
-  private parseOneModule(
+  /** parse a module, or reuse a parse from an earlier link */
+  private cachedParse(
     src: string,
-    params: Record<string, any> = {},
-    modulePath: string
-  ): void {
-    const m = parseModule(src, modulePath, params, this.registry.templates);
-    this.textModules.push(m);
+    fileName: string,
+    params: Record<string, any>,
+    defines: Record<string, any> = {}
+  ): TextModule {
+    const { parseCache, templates } = this.registry;
+    const cached = parseCache.get(fileName, src, params, defines);
+    if (cached) return cached;
+
+    const [module, problems] = recordDiagnostics(() =>
+      parseModule(src, fileName, params, templates, defines)
+    );
+    // modules with problems are reparsed, so that each link reports the problems
+    if (!problems.length) {
+      parseCache.set(fileName, src, params, defines, module);
+    }
+    return module;
+  }
+
+  /** @return the #export define values from the modules imported by a module */
+  private importedDefines(module: TextModule): Record<string, any> {
+    const [resolveMap] = collectDiagnostics(() =>
+      this.importResolveMap(module)
+    );
+    const exporters = new Set(
+      [...resolveMap.exportMap.values()].flatMap(({ modExp }) =>
+        modExp.kind === "text" ? [modExp.module] : []
+      )
+    );
+    const exported = [...exporters].map((m) => m.exportDefines);
+    return Object.assign({}, ...exported);
   }
 
   /** @return a ResolveMap to make it easier to resolve imports from the provided module */
@@ -52,8 +224,24 @@ export class ParsedRegistry {
       (i) => i.kind === "treeImport"
     ); // TODO drop filter when we drop other import kinds
 
-    // TODO cache
-    return importResolutionMap(importingModule, treeImports, this);
+    const { parseCache } = this.registry;
+    const linkCached = this.resolveMaps.get(importingModule);
+    if (linkCached) return linkCached;
+    const cached = parseCache.getResolveMap(importingModule, (m) =>
+      this.textModules.includes(m)
+    );
+    if (cached) {
+      this.resolveMaps.set(importingModule, cached);
+      return cached;
+    }
+
+    const [resolveMap, problems] = recordDiagnostics(() =>
+      importResolutionMap(importingModule, treeImports, this)
+    );
+    this.resolveMaps.set(importingModule, resolveMap);
+    // maps with problems are rebuilt, so that each link reports the problems
+    if (!problems.length) parseCache.setResolveMap(importingModule, resolveMap);
+    return resolveMap;
   }
 
   /** @return a ModuleExport if the provided pathSegments
@@ -125,6 +313,32 @@ export class ParsedRegistry {
 
 }
 
+/** @return the names of ext. params used in import args, e.g. foo for import bar(ext.foo) */
+function extParamNames(module: TextModule): string[] {
+  const args = module.imports.flatMap((i) =>
+    i.kind === "treeImport" ? treeArgs(i.imports) : (i.args ?? [])
+  );
+  return args.filter((a) => a.startsWith("ext.")).map((a) => a.slice(4));
+}
+
+/** @return true if each module's imported defines have the same values */
+function sameDefines(
+  a: Record<string, any>[],
+  b: Record<string, any>[]
+): boolean {
+  return a.every((defines, i) => {
+    const other = b[i] ?? {};
+    const keys = Object.keys(defines);
+    const same = keys.every((k) => defines[k] === other[k]);
+    return same && keys.length === Object.keys(other).length;
+  });
+}
+
+function treeArgs(tree: ImportTree): string[] {
+  const segments = flatImportPaths(tree.segments).flat();
+  return segments.flatMap((s) => s.args ?? []);
+}
+
 export function exportName(exp: TextExport | GeneratorExport): string {
   // TODO make TextExport into a class or give kinds to avoid unsound casts
   const asTextExport = exp as TextExport;
@@ -50,3 +50,11 @@ export function noSuffix(path: string): string {
   const suffixStart = suffix === -1 ? path.length : suffix;
   return path.slice(0, suffixStart);
 }
+
+/** return the path of a module in the root package, relative to the root,
+ * e.g. _root/util/math => util/math (or undefined for modules in other packages) */
+export function rootRelativePath(modulePath: string): string | undefined {
+  const rootPrefix = "_root/";
+  if (!modulePath.startsWith(rootPrefix)) return undefined;
+  return modulePath.slice(rootPrefix.length);
+}
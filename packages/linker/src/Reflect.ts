@@ -0,0 +1,473 @@
+import {
+  AttributeElem,
+  FnElem,
+  StructElem,
+  StructMemberElem,
+  TypeSpecElem,
+} from "./AbstractElems.js";
+import {
+  attributeNumber,
+  declaredBinding,
+  findAttribute,
+  isResourceRef,
+  ResourceRef,
+} from "./Bindings.js";
+import { prepRefsMergeAndLoad, refSlices } from "./Linker.js";
+import { sliceReplace } from "./Slicer.js";
+import { FoundRef, TextRef, textRefs } from "./TraverseRefs.js";
+import { last } from "./Util.js";
+
+/** interface of a linked shader, for host code that builds pipelines and buffers */
+export interface Reflection {
+  entryPoints: EntryPoint[];
+  bindings: ResourceBinding[];
+
+  /** layouts of the host shareable structs in the linked result */
+  structs: StructLayout[];
+}
+
+export type ShaderStage = "vertex" | "fragment" | "compute";
+
+export interface EntryPoint {
+  /** fn name in the linked result */
+  name: string;
+  stage: ShaderStage;
+
+  /** @workgroup_size params (source text), for compute entry points */
+  workgroupSize?: string[];
+
+  /** fn params (e.g. vertex inputs) */
+  inputs: EntryPointIO[];
+
+  /** fn return value (e.g. fragment output) */
+  output?: EntryPointIO;
+}
+
+/** an entry point param or return value */
+export interface EntryPointIO {
+  /** param name (undefined for a return value) */
+  name?: string;
+  type: string;
+  location?: number;
+  builtin?: string;
+}
+
+export type ResourceKind =
+  | "uniform"
+  | "storage"
+  | "texture"
+  | "storageTexture"
+  | "externalTexture"
+  | "sampler";
+
+export interface ResourceBinding {
+  /** var name in the linked result */
+  name: string;
+
+  /** path of the module declaring the var */
+  modulePath: string;
+  group?: number;
+  binding?: number;
+  resource: ResourceKind;
+
+  /** wgsl type of the var, e.g. array<vec4f> */
+  type: string;
+  accessMode?: string;
+}
+
+/** address spaces with host shareable layouts */
+export type BufferAddressSpace = "uniform" | "storage";
+
+/** memory layout of a struct in an address space
+ * (uniform buffers align arrays and nested structs to 16 bytes) */
+export interface StructLayout {
+  /** struct name in the linked result */
+  name: string;
+
+  /** path of the module declaring the struct */
+  modulePath: string;
+
+  /** storage for structs used in storage buffers or not used in a buffer,
+   * uniform for structs used in uniform buffers
+   * (a struct used in both kinds of buffer has a layout for each) */
+  addressSpace: BufferAddressSpace;
+
+  /** size in bytes (undefined if the struct ends with a runtime sized array) */
+  size?: number;
+  align: number;
+  members: MemberLayout[];
+}
+
+export interface MemberLayout {
+  name: string;
+  type: string;
+  offset: number;
+
+  /** size in bytes (undefined for a runtime sized array) */
+  size?: number;
+  align: number;
+
+  /** structure of the member type, with aliases and array sizes resolved */
+  hostType: HostType;
+}
+
+export type ScalarType = "f32" | "i32" | "u32" | "f16";
+
+/** a host shareable wgsl type, as seen from host code writing a buffer */
+export type HostType =
+  | { kind: "scalar"; scalar: ScalarType }
+  | { kind: "vector"; scalar: ScalarType; count: number }
+  | MatrixType
+  | ArrayType
+  | { kind: "struct"; name: string };
+
+export interface MatrixType {
+  kind: "matrix";
+  scalar: ScalarType;
+  columns: number;
+  rows: number;
+
+  /** bytes between the start of each column */
+  columnStride: number;
+}
+
+export interface ArrayType {
+  kind: "array";
+  element: HostType;
+
+  /** element count (undefined for a runtime sized array) */
+  count?: number;
+
+  /** bytes between the start of each element */
+  stride: number;
+}
+
+interface TypeLayout {
+  size?: number;
+  align: number;
+  hostType: HostType;
+}
+
+const stages: ShaderStage[] = ["vertex", "fragment", "compute"];
+
+const scalarSizes: Record<string, number> = { f32: 4, i32: 4, u32: 4, f16: 2 };
+const suffixScalars: Record<string, ScalarType> = {
+  f: "f32",
+  i: "i32",
+  u: "u32",
+  h: "f16",
+};
+
+/**
+ * Report the entry points, resource bindings and struct layouts
+ * of the elements to be linked.
+ *
+ * Names and types are reported as in the linked result (i.e. after renaming).
+ * Structs that aren't host shareable (e.g. with bool members)
+ * or whose layout depends on non literal array sizes are not reported.
+ * Structs used in uniform buffers are reported with the uniform layout.
+ */
+export function reflectRefs(refs: FoundRef[]): Reflection {
+  const loadRefs = textRefs(prepRefsMergeAndLoad(refs));
+
+  // refs by name in the linked result
+  const named = new Map(loadRefs.map((r) => [linkName(r), r]));
+
+  // struct layouts by address space and linked name (null for structs without a layout)
+  const layouts = new Map<string, StructLayout | null>();
+
+  const entryPoints = loadRefs.flatMap((r) =>
+    r.elem.kind === "fn" ? entryPoint(r, r.elem) : []
+  );
+  const resourceRefs = loadRefs.filter(isResourceRef);
+  const bindings = resourceRefs.map(resourceBinding);
+
+  const uniformStructs = bufferStructs("uniform");
+  const storageStructs = bufferStructs("storage");
+  const structs = loadRefs.flatMap((r) => {
+    if (r.elem.kind !== "struct") return [];
+    const name = linkName(r);
+    const uniform = uniformStructs.has(name);
+    const spaces: BufferAddressSpace[] = [
+      ...(storageStructs.has(name) || !uniform ? ["storage" as const] : []),
+      ...(uniform ? ["uniform" as const] : []),
+    ];
+    return spaces.flatMap((space) => structLayout(name, space) ?? []);
+  });
+
+  return { entryPoints, bindings, structs };
+
+  /** @return names of the structs in the types of the buffer vars in an address space */
+  function bufferStructs(space: BufferAddressSpace): Set<string> {
+    const found = new Set<string>();
+    const addStructs = (type: string): void => {
+      const { name, params } = splitType(type);
+      params.forEach(addStructs);
+      const ref = named.get(name);
+      if (ref?.elem.kind === "alias") {
+        addStructs(linkedType(ref, ref.elem.type));
+      } else if (ref?.elem.kind === "struct" && !found.has(name)) {
+        found.add(name);
+        structMembers(ref).forEach(([member, memberRef]) =>
+          addStructs(linkedType(memberRef, member.type))
+        );
+      }
+    };
+    resourceRefs
+      .filter((r) => r.elem.addressSpace === space && r.elem.type)
+      .forEach((r) => addStructs(linkedType(r, r.elem.type!)));
+    return found;
+  }
+
+  function entryPoint(ref: TextRef, fn: FnElem): EntryPoint[] {
+    const stage = stages.find((s) => findAttribute(fn, s));
+    if (!stage) return [];
+
+    const inputs = fn.params.map((p) =>
+      entryPointIO(ref, p.type, p.attributes, p.name)
+    );
+    const { returnType, returnAttributes } = fn;
+    const output =
+      returnType && entryPointIO(ref, returnType, returnAttributes);
+    const workgroupSize = findAttribute(fn, "workgroup_size")?.params;
+    return [{ name: linkName(ref), stage, workgroupSize, inputs, output }];
+  }
+
+  function entryPointIO(
+    ref: TextRef,
+    typeSpec: TypeSpecElem | undefined,
+    attributes: AttributeElem[],
+    name?: string
+  ): EntryPointIO {
+    const type = typeSpec ? linkedType(ref, typeSpec) : "";
+    const location = attributeNumber(findAttribute({ attributes }, "location"));
+    const builtin = findAttribute({ attributes }, "builtin")?.params[0];
+    return { name, type, location, builtin };
+  }
+
+  function resourceBinding(ref: ResourceRef): ResourceBinding {
+    const { elem, expMod } = ref;
+    const { group, binding } = ref.binding ?? declaredBinding(elem);
+    const type = elem.type ? linkedType(ref, elem.type) : "";
+    const { addressSpace, accessMode } = elem;
+    const resource = resourceKind(addressSpace, type);
+    const { modulePath } = expMod;
+    const name = linkName(ref);
+    return { name, modulePath, group, binding, resource, type, accessMode };
+  }
+
+  function structLayout(
+    name: string,
+    space: BufferAddressSpace
+  ): StructLayout | undefined {
+    const key = `${space} ${name}`;
+    const cached = layouts.get(key);
+    if (cached !== undefined) return cached ?? undefined;
+
+    layouts.set(key, null); // in case of a recursive struct
+    const layout = computeStructLayout(named.get(name)!, space);
+    layouts.set(key, layout ?? null);
+    return layout;
+  }
+
+  function computeStructLayout(
+    ref: TextRef,
+    space: BufferAddressSpace
+  ): StructLayout | undefined {
+    const members: MemberLayout[] = [];
+    let end = 0;
+    let align = 1;
+    for (const [member, memberRef] of structMembers(ref)) {
+      const type = linkedType(memberRef, member.type);
+      const layout = typeLayout(type, space);
+      if (!layout) return undefined;
+
+      const alignAttr = attributeNumber(findAttribute(member, "align"));
+      const sizeAttr = attributeNumber(findAttribute(member, "size"));
+      const memberAlign = alignAttr ?? layout.align;
+      const size = sizeAttr ?? layout.size;
+      const offset = roundUp(memberAlign, end);
+      const { hostType } = layout;
+      const { name } = member;
+      members.push({ name, type, offset, size, align: memberAlign, hostType });
+
+      // in uniform buffers, the member after a nested struct starts 16 byte aligned
+      const nestedStruct = space === "uniform" && hostType.kind === "struct";
+      const extent = nestedStruct ? roundUp(16, size ?? 0) : (size ?? 0);
+      end = offset + extent;
+      align = Math.max(align, memberAlign);
+    }
+
+    const runtimeSized = members.length && last(members)!.size === undefined;
+    const size = runtimeSized ? undefined : roundUp(align, end);
+    const { modulePath } = ref.expMod;
+    const name = linkName(ref);
+    return { name, modulePath, addressSpace: space, size, align, members };
+  }
+
+  /** @return the size and alignment of a wgsl type in an address space,
+   * or undefined if it's not host shareable */
+  function typeLayout(
+    text: string,
+    space: BufferAddressSpace
+  ): TypeLayout | undefined {
+    const { name, params } = splitType(text);
+
+    if (name in scalarSizes) return scalarLayout(name as ScalarType);
+    if (name === "atomic") return scalarLayout(params[0] as ScalarType);
+
+    const vec = name.match(/^vec([234])([fiuh]?)$/);
+    if (vec) {
+      const [, n, suffix] = vec;
+      const scalar = suffix ? suffixScalars[suffix] : (params[0] as ScalarType);
+      if (!scalarSizes[scalar]) return undefined;
+      const s = scalarSizes[scalar];
+      const count = parseInt(n);
+      const align = count === 2 ? 2 * s : 4 * s;
+      const hostType: HostType = { kind: "vector", scalar, count };
+      return { size: count * s, align, hostType };
+    }
+
+    const mat = name.match(/^mat([234])x([234])([fh]?)$/);
+    if (mat) {
+      const [, cols, rows, suffix] = mat;
+      const column = suffix
+        ? `vec${rows}${suffix}`
+        : `vec${rows}<${params[0]}>`;
+      const col = typeLayout(column, space);
+      if (col?.hostType.kind !== "vector") return undefined;
+      const columnStride = roundUp(col.align, col.size!);
+      const { scalar } = col.hostType;
+      const columns = parseInt(cols);
+      const hostType: HostType = {
+        kind: "matrix",
+        scalar,
+        columns,
+        rows: parseInt(rows),
+        columnStride,
+      };
+      return { size: columns * columnStride, align: col.align, hostType };
+    }
+
+    if (name === "array") {
+      const elem = params[0] && typeLayout(params[0], space);
+      if (!elem || elem.size === undefined) return undefined;
+      const elemStride = roundUp(elem.align, elem.size);
+      // uniform buffers align arrays and their elements to 16 bytes
+      const uniform = space === "uniform";
+      const stride = uniform ? roundUp(16, elemStride) : elemStride;
+      const align = uniform ? roundUp(16, elem.align) : elem.align;
+      const element = elem.hostType;
+      if (params.length < 2) {
+        const hostType: HostType = { kind: "array", element, stride };
+        return { align, hostType }; // runtime sized
+      }
+      const count = arrayCount(params[1]);
+      if (count === undefined) return undefined;
+      const hostType: HostType = { kind: "array", element, count, stride };
+      return { size: count * stride, align, hostType };
+    }
+
+    const ref = named.get(name);
+    if (ref?.elem.kind === "alias") {
+      return typeLayout(linkedType(ref, ref.elem.type), space);
+    }
+    if (ref?.elem.kind === "struct") {
+      const layout = structLayout(name, space);
+      if (!layout) return undefined;
+      // uniform buffers align nested structs to 16 bytes
+      const { size } = layout;
+      const align =
+        space === "uniform" ? roundUp(16, layout.align) : layout.align;
+      return { size, align, hostType: { kind: "struct", name } };
+    }
+    return undefined;
+  }
+
+  /** @return the element count of a fixed size array
+   * (from a literal, or from a const initialized with a literal) */
+  function arrayCount(text: string): number | undefined {
+    const literal = text.match(/^(\d+)[iu]?$/);
+    if (literal) return parseInt(literal[1]);
+
+    const ref = named.get(text);
+    if (ref?.elem.kind === "var") {
+      const { start, end } = ref.elem;
+      const declaration = ref.expMod.preppedSrc.slice(start, end);
+      const initializer = declaration.match(/=\s*(\d+)[iu]?\s*;?\s*$/);
+      if (initializer) return parseInt(initializer[1]);
+    }
+    return undefined;
+  }
+}
+
+/** @return the members of a struct, including members merged from extended structs */
+function structMembers(ref: TextRef): [StructMemberElem, TextRef][] {
+  const struct = ref.elem as StructElem;
+  const mergeMembers = (ref.mergeRefs ?? []).flatMap((mergeRef) =>
+    (mergeRef.elem as StructElem).members.map(
+      (m) => [m, mergeRef] as [StructMemberElem, TextRef]
+    )
+  );
+  return [
+    ...struct.members.map((m) => [m, ref] as [StructMemberElem, TextRef]),
+    ...mergeMembers,
+  ];
+}
+
+/** @return the text of a type as it appears in the linked result */
+function linkedType(ref: TextRef, typeSpec: TypeSpecElem): string {
+  const { start, end, typeRefs, varRefs } = typeSpec;
+  const slices = refSlices([...typeRefs, ...varRefs]);
+  return sliceReplace(ref.expMod.preppedSrc, slices, start, end).dest;
+}
+
+function linkName(ref: TextRef): string {
+  return ref.rename ?? ref.elem.name;
+}
+
+function resourceKind(
+  addressSpace: string | undefined,
+  type: string
+): ResourceKind {
+  if (addressSpace === "uniform") return "uniform";
+  if (addressSpace === "storage") return "storage";
+  if (type.startsWith("texture_storage")) return "storageTexture";
+  if (type.startsWith("texture_external")) return "externalTexture";
+  if (type.startsWith("texture_")) return "texture";
+  return "sampler";
+}
+
+/** split a type into its name and top level template parameters
+ * e.g. array<vec2<f32>, 4> -> array, [vec2<f32>, 4] */
+function splitType(text: string): { name: string; params: string[] } {
+  const open = text.indexOf("<");
+  if (open === -1) return { name: text.trim(), params: [] };
+
+  const name = text.slice(0, open).trim();
+  const inner = text.slice(open + 1, text.lastIndexOf(">"));
+  const params: string[] = [];
+  let depth = 0;
+  let paramStart = 0;
+  [...inner].forEach((c, i) => {
+    if (c === "<") depth++;
+    else if (c === ">") depth--;
+    else if (c === "," && depth === 0) {
+      params.push(inner.slice(paramStart, i).trim());
+      paramStart = i + 1;
+    }
+  });
+  const lastParam = inner.slice(paramStart).trim();
+  if (lastParam) params.push(lastParam);
+  return { name, params };
+}
+
+function scalarLayout(scalar: ScalarType): TypeLayout | undefined {
+  const size = scalarSizes[scalar];
+  if (!size) return undefined;
+  return { size, align: size, hostType: { kind: "scalar", scalar } };
+}
+
+function roundUp(align: number, n: number): number {
+  return Math.ceil(n / align) * align;
+}
@@ -0,0 +1,52 @@
+import { FnScope, LocalDecl } from "./AbstractElems.js";
+
+/** source range of a block, loop, or fn */
+export interface ScopeRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Build the scope tree for a fn.
+ *
+ * @param params fn parameter names, visible throughout the fn
+ * @param blocks ranges of the blocks and loops inside the fn (in any order)
+ * @param locals let, var and const declarations inside the fn
+ */
+export function fnScope(
+  start: number,
+  end: number,
+  params: string[],
+  blocks: ScopeRange[],
+  locals: LocalDecl[]
+): FnScope {
+  const decls = params.map((name) => ({ name, start }));
+  const root: FnScope = { start, end, decls, children: [] };
+
+  // outer blocks sort before the blocks they contain
+  const sorted = [...blocks].sort((a, b) => a.start - b.start || b.end - a.end);
+  sorted.forEach(({ start, end }) => {
+    const parent = innermostScope(root, start);
+    parent.children.push({ start, end, decls: [], children: [] });
+  });
+
+  locals.forEach((decl) => innermostScope(root, decl.start).decls.push(decl));
+
+  return root;
+}
+
+/**
+ * @return true if the name refers to a local declaration at the given position
+ * (i.e. the name is shadowed from module scope at that position)
+ */
+export function isLocal(scope: FnScope, name: string, pos: number): boolean {
+  if (pos < scope.start || pos >= scope.end) return false;
+  const declared = scope.decls.some((d) => d.name === name && d.start <= pos);
+  return declared || scope.children.some((c) => isLocal(c, name, pos));
+}
+
+/** @return the most deeply nested scope containing the position */
+function innermostScope(scope: FnScope, pos: number): FnScope {
+  const child = scope.children.find((c) => c.start <= pos && pos < c.end);
+  return child ? innermostScope(child, pos) : scope;
+}
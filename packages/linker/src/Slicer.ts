@@ -120,8 +120,38 @@ export function sliceWords(
   const slices = matches.map((m) => {
     const start = m.index;
     const end = start + m[0].length;
-    const replacement = replace[m[0]];
+    const replacement = String(replace[m[0]]);
     return { start, end, replacement };
   });
   return slices;
 }
+
+/**
+ * Join texts into one combined text,
+ * shifting each text's srcMap entries to its position in the combined text.
+ *
+ * @param srcMaps texts to combine, each with mappings to its srcs
+ * @param separator text to insert between texts (not mapped to any src)
+ * @return a srcMap from the srcs to the combined text
+ */
+export function concatSrcMaps(srcMaps: SrcMap[], separator = ""): SrcMap {
+  const texts: string[] = [];
+  const entries: SrcMapEntry[] = [];
+  let destPos = 0;
+
+  srcMaps.forEach((srcMap, i) => {
+    if (i > 0) {
+      texts.push(separator);
+      destPos += separator.length;
+    }
+    srcMap.entries.forEach((e) => {
+      const destStart = e.destStart + destPos;
+      const destEnd = e.destEnd + destPos;
+      entries.push({ ...e, destStart, destEnd });
+    });
+    texts.push(srcMap.dest);
+    destPos += srcMap.dest.length;
+  });
+
+  return new SrcMap(texts.join(""), entries);
+}
@@ -0,0 +1,179 @@
+import { SrcMapEntry } from "mini-parse";
+import { LinkResult } from "./Linker.js";
+
+/** Source Map revision 3 document, as used by browser devtools.
+ * see https://sourcemaps.info/spec.html */
+export interface SourceMapV3 {
+  version: 3;
+
+  /** name of the generated (linked) file */
+  file?: string;
+
+  /** module paths of the original sources */
+  sources: string[];
+
+  /** original source texts, in the same order as sources */
+  sourcesContent: string[];
+
+  names: string[];
+
+  /** base64 VLQ encoded mappings from the linked text to the sources */
+  mappings: string;
+}
+
+/**
+ * Convert a link result into a Source Map v3 document.
+ *
+ * Sources are keyed by module path (the srcPath of the SrcMap entries),
+ * entries without a module path (e.g. generated code) are left unmapped.
+ *
+ * @param file name of the linked file, recorded in the map
+ */
+export function sourceMapV3(result: LinkResult, file?: string): SourceMapV3 {
+  const entries = result.srcMap.entries
+    .filter((e) => e.srcPath !== undefined)
+    .sort((a, b) => a.destStart - b.destStart);
+
+  const sources: string[] = [];
+  const sourcesContent: string[] = [];
+  entries.forEach(({ srcPath, src }) => {
+    if (!sources.includes(srcPath!)) {
+      sources.push(srcPath!);
+      sourcesContent.push(src);
+    }
+  });
+
+  const segments = entries.flatMap((e, i) => {
+    const srcIndex = sources.indexOf(e.srcPath!);
+    const entrySegments = entryMappings(result.dest, e, srcIndex);
+    const next = entries[i + 1];
+    if (next?.destStart === e.destEnd) return entrySegments;
+
+    // mark the end of the mapped range, so that following text isn't mapped
+    return [...entrySegments, { destPos: e.destEnd }];
+  });
+  const mappings = encodeMappings(result.dest, segments);
+
+  const fileField = file ? { file } : {};
+  return {
+    version: 3,
+    ...fileField,
+    sources,
+    sourcesContent,
+    names: [],
+    mappings,
+  };
+}
+
+/** @return a wgsl comment line referencing a source map file */
+export function sourceMappingURLComment(url: string): string {
+  return `//# sourceMappingURL=${url}`;
+}
+
+/** a mapping from a position in the linked text to a source position,
+ * or to no source if src is undefined */
+interface Segment {
+  destPos: number;
+  src?: { srcIndex: number; srcPos: number; srcText: string };
+}
+
+/** @return segments for one SrcMap entry.
+ * Unchanged (copied) text gets a segment at the start of each line,
+ * rewritten text is mapped to the start of its src range. */
+function entryMappings(
+  dest: string,
+  e: SrcMapEntry,
+  srcIndex: number
+): Segment[] {
+  const srcText = e.src;
+  const segment = (destPos: number, srcPos: number): Segment => ({
+    destPos,
+    src: { srcIndex, srcPos, srcText },
+  });
+
+  const copied = e.srcEnd - e.srcStart === e.destEnd - e.destStart;
+  if (!copied) return [segment(e.destStart, e.srcStart)];
+
+  const segments = [segment(e.destStart, e.srcStart)];
+  for (let i = e.destStart; i < e.destEnd - 1; i++) {
+    if (dest[i] === "\n") {
+      segments.push(segment(i + 1, e.srcStart + i + 1 - e.destStart));
+    }
+  }
+  return segments;
+}
+
+/** encode segments (sorted by destPos) into a v3 mappings string */
+function encodeMappings(dest: string, segments: Segment[]): string {
+  const destLines = lineStarts(dest);
+  const srcLines = new Map<string, number[]>();
+
+  const lines: string[][] = destLines.map(() => []);
+  let prevSrcIndex = 0;
+  let prevSrcLine = 0;
+  let prevSrcColumn = 0;
+  let prevLine = -1;
+  let prevColumn = 0;
+
+  segments.forEach(({ destPos, src }) => {
+    const [line, column] = lineColumn(destLines, destPos);
+    if (line !== prevLine) {
+      prevColumn = 0;
+      prevLine = line;
+    }
+    const fields = [column - prevColumn];
+    prevColumn = column;
+
+    if (src) {
+      const { srcIndex, srcPos, srcText } = src;
+      const starts = srcLines.get(srcText) ?? lineStarts(srcText);
+      srcLines.set(srcText, starts);
+      const [srcLine, srcColumn] = lineColumn(starts, srcPos);
+      fields.push(
+        srcIndex - prevSrcIndex,
+        srcLine - prevSrcLine,
+        srcColumn - prevSrcColumn
+      );
+      prevSrcIndex = srcIndex;
+      prevSrcLine = srcLine;
+      prevSrcColumn = srcColumn;
+    }
+    lines[line]?.push(fields.map(vlqEncode).join(""));
+  });
+
+  return lines.map((l) => l.join(",")).join(";");
+}
+
+/** @return the character positions of the start of each line in the text */
+function lineStarts(text: string): number[] {
+  const starts = [...text.matchAll(/\n/g)].map((m) => m.index! + 1);
+  return [0, ...starts];
+}
+
+/** @return zero based line and column of a character position */
+function lineColumn(starts: number[], pos: number): [number, number] {
+  let line = 0;
+  let end = starts.length;
+  while (line + 1 < end) {
+    const mid = (line + end) >> 1;
+    if (starts[mid] <= pos) line = mid;
+    else end = mid;
+  }
+  return [line, pos - starts[line]];
+}
+
+const base64 =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+/** @return a number encoded in base64 VLQ format */
+export function vlqEncode(n: number): string {
+  let vlq = n < 0 ? (-n << 1) | 1 : n << 1;
+  let result = "";
+  do {
+    let digit = vlq & 0x1f;
+    vlq >>>= 5;
+    if (vlq > 0) digit |= 0x20; // continuation bit
+    result += base64[digit];
+  } while (vlq > 0);
+  return result;
+}
@@ -0,0 +1,318 @@
+import { HostType, ScalarType, StructLayout } from "./Reflect.js";
+import { last } from "./Util.js";
+
+/**
+ * ts - TypeScript source
+ * js - JavaScript source (pack and unpack functions only)
+ * dts - TypeScript declarations for the js source
+ */
+export type StructTypesFormat = "ts" | "js" | "dts";
+
+/** a byte offset, as a base expression plus a constant */
+type Offset = [base: string, n: number];
+
+/** @return the name used for a struct's size constant and pack/unpack functions */
+type FnName = (structName: string) => string;
+
+const dataViewTypes: Record<ScalarType, string> = {
+  f32: "Float32",
+  i32: "Int32",
+  u32: "Uint32",
+  f16: "Uint16", // converted via f16Bits() and f16Value()
+};
+
+const scalarSizes: Record<ScalarType, number> = {
+  f32: 4,
+  i32: 4,
+  u32: 4,
+  f16: 2,
+};
+
+/**
+ * Generate host code for reading and writing wgsl structs in buffers.
+ *
+ * For each struct, emits an interface, a byte size constant
+ * (for structs without a runtime sized array),
+ * and pack and unpack functions that write and read an ArrayBuffer
+ * in the wgsl host shareable layout (e.g. for uniform and storage buffers).
+ *
+ * Vectors are represented as tuples, matrices as flat column major number arrays.
+ *
+ * A struct with both storage and uniform layouts
+ * gets a second size constant and pack and unpack functions for the uniform layout,
+ * named with a Uniform suffix (e.g. packParamsUniform).
+ *
+ * @param structs struct layouts, e.g. from registry.reflect()
+ */
+export function structTypes(
+  structs: StructLayout[],
+  format: StructTypesFormat = "ts"
+): string {
+  const typed = format === "ts";
+  const header = "// generated from wgsl struct declarations, do not edit\n";
+  const storageNames = new Set(
+    structs.filter((s) => s.addressSpace === "storage").map((s) => s.name)
+  );
+  const texts = structs.map((s) => {
+    const uniformSuffix = s.addressSpace === "uniform";
+    const fnName: FnName = (name) =>
+      uniformSuffix && storageNames.has(name) ? `${name}Uniform` : name;
+    const withInterface = fnName(s.name) === s.name;
+    return format === "dts"
+      ? structDeclarations(s, fnName, withInterface)
+      : structSource(s, fnName, withInterface && typed, typed);
+  });
+  const helpers =
+    format !== "dts" && usesF16(structs) ? [f16Helpers(typed)] : [];
+  return [header, ...texts, ...helpers].join("\n");
+}
+
+function structSource(
+  struct: StructLayout,
+  fnName: FnName,
+  withInterface: boolean,
+  typed: boolean
+): string {
+  const { name, size } = struct;
+  const fn = fnName(name);
+  const t = (text: string): string => (typed ? text : "");
+  const bufferSize = size === undefined ? runtimeSize(struct) : `${fn}Size`;
+
+  const packLines = struct.members.flatMap((m) =>
+    packType(m.hostType, `value.${m.name}`, ["offset", m.offset], 0, fnName)
+  );
+  const unpackLines = struct.members.map((m) => {
+    const read = unpackType(m.hostType, ["offset", m.offset], 0, fnName);
+    return `${m.name}: ${read},`;
+  });
+
+  const lines = [
+    ...(withInterface ? [...structInterface(struct), ""] : []),
+    ...(size === undefined ? [] : [`export const ${fn}Size = ${size};`, ""]),
+    `/** write ${name} into a buffer */`,
+    `export function pack${fn}(`,
+    `  value${t(`: ${name}`)},`,
+    `  buffer${t(": ArrayBuffer")} = new ArrayBuffer(${bufferSize}),`,
+    `  offset = 0`,
+    `)${t(": ArrayBuffer")} {`,
+    `  const view = new DataView(buffer);`,
+    ...indent(packLines),
+    `  return buffer;`,
+    `}`,
+    ``,
+    `/** read ${name} from a buffer */`,
+    `export function unpack${fn}(`,
+    `  buffer${t(": ArrayBuffer")},`,
+    `  offset = 0`,
+    `)${t(`: ${name}`)} {`,
+    `  const view = new DataView(buffer);`,
+    `  return {`,
+    ...indent(unpackLines, 2),
+    `  };`,
+    `}`,
+    ``,
+  ];
+  return lines.join("\n");
+}
+
+function structDeclarations(
+  struct: StructLayout,
+  fnName: FnName,
+  withInterface: boolean
+): string {
+  const { name, size } = struct;
+  const fn = fnName(name);
+  const lines = [
+    ...(withInterface ? [...structInterface(struct), ``] : []),
+    ...(size === undefined ? [] : [`export declare const ${fn}Size: number;`]),
+    `export declare function pack${fn}(`,
+    `  value: ${name},`,
+    `  buffer?: ArrayBuffer,`,
+    `  offset?: number`,
+    `): ArrayBuffer;`,
+    `export declare function unpack${fn}(`,
+    `  buffer: ArrayBuffer,`,
+    `  offset?: number`,
+    `): ${name};`,
+    ``,
+  ];
+  return lines.join("\n");
+}
+
+function structInterface(struct: StructLayout): string[] {
+  const members = struct.members.map(
+    (m) => `  ${m.name}: ${tsType(m.hostType)};`
+  );
+  return [`export interface ${struct.name} {`, ...members, `}`];
+}
+
+/** @return an expression for the buffer size of a struct ending with a runtime sized array */
+function runtimeSize(struct: StructLayout): string {
+  const { offset, name, hostType } = last(struct.members)!;
+  const stride = hostType.kind === "array" ? hostType.stride : 0;
+  return `${offset} + value.${name}.length * ${stride}`;
+}
+
+function tsType(type: HostType): string {
+  const { kind } = type;
+  if (kind === "scalar") return "number";
+  if (kind === "vector") {
+    return `[${Array(type.count).fill("number").join(", ")}]`;
+  }
+  if (kind === "matrix") return "number[]";
+  if (kind === "array") return `${tsType(type.element)}[]`;
+  return type.name;
+}
+
+/** @return statements to write a value of the given type into the buffer */
+function packType(
+  type: HostType,
+  value: string,
+  offset: Offset,
+  depth: number,
+  fnName: FnName
+): string[] {
+  const [base, n] = offset;
+  const { kind } = type;
+  if (kind === "scalar") {
+    return [packScalar(type.scalar, value, offset)];
+  }
+  if (kind === "vector") {
+    const size = scalarSizes[type.scalar];
+    return [...Array(type.count).keys()].map((i) =>
+      packScalar(type.scalar, `${value}[${i}]`, [base, n + i * size])
+    );
+  }
+  if (kind === "matrix") {
+    const { columns, rows, columnStride, scalar } = type;
+    const size = scalarSizes[scalar];
+    return [...Array(columns * rows).keys()].map((i) => {
+      const [c, r] = [Math.floor(i / rows), i % rows];
+      const elemOffset: Offset = [base, n + c * columnStride + r * size];
+      return packScalar(scalar, `${value}[${i}]`, elemOffset);
+    });
+  }
+  if (kind === "array") {
+    const i = `i${depth}`;
+    const count = type.count ?? `${value}.length`;
+    const elemBase = `${offsetText(offset)} + ${i} * ${type.stride}`;
+    const body = packType(
+      type.element,
+      `${value}[${i}]`,
+      [elemBase, 0],
+      depth + 1,
+      fnName
+    );
+    return [
+      `for (let ${i} = 0; ${i} < ${count}; ${i}++) {`,
+      ...indent(body),
+      `}`,
+    ];
+  }
+  const fn = fnName(type.name);
+  return [`pack${fn}(${value}, buffer, ${offsetText(offset)});`];
+}
+
+function packScalar(scalar: ScalarType, value: string, offset: Offset): string {
+  const setter = `view.set${dataViewTypes[scalar]}`;
+  const v = scalar === "f16" ? `f16Bits(${value})` : value;
+  return `${setter}(${offsetText(offset)}, ${v}, true);`;
+}
+
+/** @return an expression to read a value of the given type from the buffer */
+function unpackType(
+  type: HostType,
+  offset: Offset,
+  depth: number,
+  fnName: FnName
+): string {
+  const [base, n] = offset;
+  const { kind } = type;
+  if (kind === "scalar") return unpackScalar(type.scalar, offset);
+  if (kind === "vector") {
+    const size = scalarSizes[type.scalar];
+    const elems = [...Array(type.count).keys()].map((i) =>
+      unpackScalar(type.scalar, [base, n + i * size])
+    );
+    return `[${elems.join(", ")}]`;
+  }
+  if (kind === "matrix") {
+    const { columns, rows, columnStride, scalar } = type;
+    const size = scalarSizes[scalar];
+    const elems = [...Array(columns * rows).keys()].map((i) => {
+      const [c, r] = [Math.floor(i / rows), i % rows];
+      return unpackScalar(scalar, [base, n + c * columnStride + r * size]);
+    });
+    return `[${elems.join(", ")}]`;
+  }
+  if (kind === "array") {
+    const i = `i${depth}`;
+    const start = offsetText(offset);
+    const length =
+      type.count ??
+      `Math.floor((buffer.byteLength - (${start})) / ${type.stride})`;
+    const elemBase = `${start} + ${i} * ${type.stride}`;
+    const elem = unpackType(type.element, [elemBase, 0], depth + 1, fnName);
+    return `Array.from({ length: ${length} }, (_, ${i}) => ${elem})`;
+  }
+  return `unpack${fnName(type.name)}(buffer, ${offsetText(offset)})`;
+}
+
+function unpackScalar(scalar: ScalarType, offset: Offset): string {
+  const read = `view.get${dataViewTypes[scalar]}(${offsetText(offset)}, true)`;
+  return scalar === "f16" ? `f16Value(${read})` : read;
+}
+
+function offsetText(offset: Offset): string {
+  const [base, n] = offset;
+  return n ? `${base} + ${n}` : base;
+}
+
+function indent(lines: string[], levels = 1): string[] {
+  const spaces = "  ".repeat(levels);
+  return lines.map((l) => spaces + l);
+}
+
+function usesF16(structs: StructLayout[]): boolean {
+  const hasF16 = (type: HostType): boolean => {
+    if (type.kind === "array") return hasF16(type.element);
+    if (type.kind === "struct") return false; // checked in its own layout
+    return type.scalar === "f16";
+  };
+  return structs.some((s) => s.members.some((m) => hasF16(m.hostType)));
+}
+
+/** conversions between numbers and f16 bits (DataView f16 support isn't yet universal) */
+function f16Helpers(typed: boolean): string {
+  const num = typed ? ": number" : "";
+  return `
+const f32Scratch = new Float32Array(1);
+const u32Scratch = new Uint32Array(f32Scratch.buffer);
+
+function f16Bits(value${num})${num} {
+  f32Scratch[0] = value;
+  const x = u32Scratch[0];
+  const sign = (x >>> 16) & 0x8000;
+  const mantissa = x & 0x7fffff;
+  const f32Exp = (x >>> 23) & 0xff;
+  const exp = f32Exp - 127 + 15;
+  if (f32Exp === 0xff) return sign | 0x7c00 | (mantissa ? 0x200 : 0);
+  if (exp >= 0x1f) return sign | 0x7c00;
+  if (exp <= 0) {
+    if (exp < -10) return sign;
+    const m = (mantissa | 0x800000) >> (1 - exp);
+    return sign | ((m + 0x1000) >> 13);
+  }
+  return sign | ((exp << 10) + ((mantissa + 0x1000) >> 13));
+}
+
+function f16Value(bits${num})${num} {
+  const sign = bits & 0x8000 ? -1 : 1;
+  const exp = (bits >> 10) & 0x1f;
+  const fraction = bits & 0x3ff;
+  if (exp === 0) return sign * 2 ** -14 * (fraction / 1024);
+  if (exp === 0x1f) return fraction ? NaN : sign * Infinity;
+  return sign * 2 ** (exp - 15) * (1 + fraction / 1024);
+}
+`;
+}
@@ -10,9 +10,11 @@ import {
   TreeImportElem,
   TypeRefElem,
   VarElem,
+  VarRefElem,
 } from "./AbstractElems.js";
+import { GroupBinding } from "./Bindings.js";
 import { refFullName } from "./Linker.js";
-import { moduleLog } from "./LinkerLogging.js";
+import { moduleReport } from "./LinkerLogging.js";
 import {
   GeneratorExport,
   GeneratorModule,
@@ -85,6 +87,9 @@ export interface TextRef extends FoundRefBase {
   /** refs to extends elements on this struct element
    * (added in a post processing step after traverse) */
   mergeRefs?: TextRef[];
+
+  /** group and binding assigned to a resource var (if the linker is allocating bindings) */
+  binding?: GroupBinding;
 }
 
 /**
@@ -145,6 +150,7 @@ export function traverseRefs(
  *  struct -> typeRefs -> (local struct or import+export+struct)
  *  struct -> extends -> (local struct or import+export+struct)
  *  var -> typeRefs -> (local struct or import+export+struct)
+ *  fn, var, struct -> varRefs -> (local var or import+export+var)
  */
 function recursiveRefs(
   refs: FoundRef[],
@@ -173,7 +179,7 @@ function textRef(ref: FoundRef): ref is TextRef {
   return ref.kind !== "gen";
 }
 
-/** return all struct/fn refs from a src element */
+/** return all struct/fn/var/alias refs from a src element */
 function elemRefs(
   srcRef: TextRef,
   mod: TextModule,
@@ -182,7 +188,7 @@ function elemRefs(
   const { elem } = srcRef;
   let fnRefs: FoundRef[] = [];
   let mergeRefs: FoundRef[] = [];
-  if (elem.kind === "fn") {
+  if (elem.kind === "fn" || elem.kind === "var") {
     const userCalls = elem.calls.filter(
       (call) => !stdFn(call.name) && call.name !== elem.name
     );
@@ -192,7 +198,21 @@ function elemRefs(
   }
   const userTypeRefs = elemTypeRefs(elem);
   const tRefs = elemChildrenRefs(srcRef, userTypeRefs, mod, registry);
-  return [...fnRefs, ...tRefs, ...mergeRefs];
+  const varRefs = elemChildrenRefs(srcRef, elemVarRefs(elem), mod, registry);
+  return [...fnRefs, ...tRefs, ...varRefs, ...mergeRefs];
+}
+
+/** return references to global vars, consts and overrides from an element */
+function elemVarRefs(
+  elem: FnElem | StructElem | VarElem | AliasElem | StructMemberElem
+): VarRefElem[] {
+  const { kind } = elem;
+  if (kind === "fn" || kind === "var" || kind === "member") {
+    return elem.varRefs;
+  } else if (kind === "struct") {
+    return elem.members?.flatMap((m) => m.varRefs) || [];
+  }
+  return [];
 }
 
 /** return type references from an element */
@@ -218,11 +238,11 @@ function elemTypeRefs(
   return userTypeRefs;
 }
 
-/** find fn/struct references from children of a fn or struct elem
- * (children being call references and type references from the fn or struct) */
+/** find fn/struct/var references from children of a fn, struct or var elem
+ * (children being call, type and var references from the fn, struct or var) */
 function elemChildrenRefs(
   srcRef: TextRef,
-  children: (CallElem | TypeRefElem)[],
+  children: (CallElem | TypeRefElem | VarRefElem)[],
   mod: TextModule,
   registry: ParsedRegistry
 ): FoundRef[] {
@@ -232,7 +252,7 @@ function elemChildrenRefs(
 /** given a source elem that refers to another element (like a fn call or type reference),
  * return a TextRef linking the src elem to its referent, possibly through an import/export */
 function linkedRef(
-  elem: CallElem | TypeRefElem,
+  elem: CallElem | TypeRefElem | VarRefElem,
   srcRef: TextRef,
   mod: TextModule,
   registry: ParsedRegistry
@@ -246,17 +266,26 @@ function linkedRef(
     localRef(name, mod);
 
   if (foundRef) {
-    if (["typeRef", "call"].includes(elem.kind)) {
+    if (["typeRef", "call", "varRef"].includes(elem.kind)) {
       // bind src elem to referent elem (resolve reference)
       elem.ref = foundRef;
     } else {
       console.error("unexpected kind", elem);
     }
+  } else {
+    // parsed modules are reused between links, so clear any binding from a prior link
+    elem.ref = undefined;
   }
 
   if (foundRef) return [foundRef];
 
-  moduleLog(srcRef.expMod, elem.start, `reference not found: ${name}`);
+  // other identifiers in expressions are left for the wgsl compiler to check
+  // (e.g. names provided by templates or code generators)
+  if (elem.kind === "varRef") return [];
+
+  const { expMod } = srcRef;
+  const msg = `reference not found: ${name}`;
+  moduleReport(expMod, elem.start, "unresolved-reference", msg);
   return [];
 }
 
@@ -273,7 +302,8 @@ function extendsRefs(
     const foundRef = importRef(srcRef, merge.name, mod, mod.imports, registry);
     if (foundRef) return [foundRef];
 
-    moduleLog(srcRef.expMod, merge.start, `import merge reference not found`);
+    const msg = `import merge reference not found`;
+    moduleReport(srcRef.expMod, merge.start, "unresolved-extends", msg);
     return [];
   });
 }
@@ -468,7 +498,9 @@ function matchingExport(
 function localRef(name: string, mod: TextModule): TextRef | undefined {
   const elem =
     mod.fns.find((fn) => fn.name === name) ??
-    mod.structs.find((s) => s.name === name);
+    mod.structs.find((s) => s.name === name) ??
+    mod.vars.find((v) => v.name === name) ??
+    mod.aliases.find((a) => a.name === name);
   if (elem) {
     return {
       kind: "txt",
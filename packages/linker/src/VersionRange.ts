@@ -0,0 +1,93 @@
+/** simplistic npm version range matching (for checking bundle dependencies) */
+
+type Version = number[];
+
+/**
+ * @return true if an npm version (e.g. 1.2.3) is in a package.json version range
+ *  (e.g. ^1.2.0, ~1.2, 1.x, >=1.0.0 <2.0.0, 1.0.0 - 1.4.0, ^1.0.0 || ^2.0.0).
+ *  Prerelease tags are ignored, and ranges that aren't version ranges
+ *  (e.g. file: or git urls, or dist tags like latest) always match.
+ */
+export function versionInRange(version: string, range: string): boolean {
+  const v = partialVersion(version.replace(/^v/, "").split(/[-+]/)[0]);
+  const trimmed = range.trim().replace(/^workspace:/, "");
+  if (v.length !== 3 || !/^[\d\s.xX*^~<>=|v-]*$/.test(trimmed)) return true;
+
+  return trimmed.split("||").some((alternative) => {
+    const set = alternative.trim().replace(/([<>=^~]+)\s+/g, "$1");
+    const hyphen = set.match(/^(\S+)\s+-\s+(\S+)$/);
+    if (hyphen) {
+      const [, low, high] = hyphen;
+      return comparatorMatch(v, ">=" + low) && comparatorMatch(v, "<=" + high);
+    }
+    return set
+      .split(/\s+/)
+      .every((comparator) => comparatorMatch(v, comparator));
+  });
+}
+
+/** @return true if a version matches one comparator, e.g. ^1.2.0 or <2 */
+function comparatorMatch(v: Version, comparator: string): boolean {
+  const [, op = "=", versionText] = comparator.match(
+    /^([<>]=?|=|\^|~)?v?(.*)$/
+  )!;
+  const nums = partialVersion(versionText);
+  if (!nums.length) return true; // e.g. *, x, or ^ alone
+
+  const low = full(nums);
+  const partial = nums.length < 3;
+  switch (op) {
+    case ">":
+      return partial
+        ? compare(v, bump(nums, nums.length - 1)) >= 0
+        : compare(v, low) > 0;
+    case ">=":
+      return compare(v, low) >= 0;
+    case "<":
+      return compare(v, low) < 0;
+    case "<=":
+      return partial
+        ? compare(v, bump(nums, nums.length - 1)) < 0
+        : compare(v, low) <= 0;
+    case "^": {
+      const nonZero = nums.findIndex((n) => n !== 0);
+      const last = nonZero === -1 ? nums.length - 1 : nonZero;
+      return inBounds(v, low, bump(nums, last));
+    }
+    case "~":
+      return inBounds(v, low, bump(nums, Math.min(1, nums.length - 1)));
+    default:
+      return partial
+        ? inBounds(v, low, bump(nums, nums.length - 1))
+        : compare(v, low) === 0;
+  }
+}
+
+/** @return the leading numeric parts of a version, e.g. [1, 2] for 1.2.x */
+function partialVersion(text: string): Version {
+  const nums: Version = [];
+  for (const part of text.split(".").slice(0, 3)) {
+    if (!/^\d+$/.test(part)) break;
+    nums.push(Number(part));
+  }
+  return nums;
+}
+
+/** @return the next version after the part at index i, e.g. 1.3.0 for 1.2.x and i = 1 */
+function bump(nums: Version, i: number): Version {
+  return full([...nums.slice(0, i), nums[i] + 1]);
+}
+
+function full(nums: Version): Version {
+  return [0, 1, 2].map((i) => nums[i] ?? 0);
+}
+
+/** @return true if low <= v < high */
+function inBounds(v: Version, low: Version, high: Version): boolean {
+  return compare(v, low) >= 0 && compare(v, high) < 0;
+}
+
+function compare(a: Version, b: Version): number {
+  const diff = a.findIndex((n, i) => n !== b[i]);
+  return diff === -1 ? 0 : a[diff] - b[diff];
+}
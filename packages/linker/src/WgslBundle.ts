@@ -14,4 +14,12 @@ export interface WgslBundle {
    *    values are wgsl/wesl code strings
    */
   modules: Record<string, string>;
+
+  /** bundles of the wgsl packages imported by this package's modules
+   * (registered along with this bundle, see ModuleRegistry libs) */
+  dependencies?: WgslBundle[];
+
+  /** npm version ranges of the dependencies as declared in package.json,
+   * by package name (e.g. { "wgsl-rand": "^0.4.0" }) */
+  dependencyVersions?: Record<string, string>;
 }
\ No newline at end of file
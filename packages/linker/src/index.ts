@@ -1,7 +1,35 @@
+export type {
+  BindingEntry,
+  BindingOptions,
+  GroupBinding,
+  PinnedBinding,
+} from "./Bindings.js";
+export * from "./Diagnostics.js";
+export { reportImportCycles } from "./ImportCycles.js";
 export * from "./Linker.js";
+export { importedPackages, importPathNames } from "./ModuleLoader.js";
+export type { ModuleLoader } from "./ModuleLoader.js";
 export * from "./ModuleRegistry.js";
 export * from "./ParseWgslD.js";
 export * from "./PathUtil.js";
+export type {
+  ArrayType,
+  BufferAddressSpace,
+  EntryPoint,
+  EntryPointIO,
+  HostType,
+  MatrixType,
+  MemberLayout,
+  Reflection,
+  ResourceBinding,
+  ResourceKind,
+  ScalarType,
+  ShaderStage,
+  StructLayout,
+} from "./Reflect.js";
 export * from "./Util.js";
 export * from "./WgslBundle.js";
-export { preProcess } from "./ParseModule.js";
+export { parseModule, preProcess } from "./ParseModule.js";
+export type { TextModule } from "./ParseModule.js";
+export * from "./SourceMapV3.js";
+export * from "./StructTypes.js";
@@ -0,0 +1,119 @@
+import { expect, test } from "vitest";
+import { BindingOptions } from "../Bindings.js";
+import { LinkResult } from "../Linker.js";
+import { ModuleRegistry } from "../ModuleRegistry.js";
+
+function linkBindings(
+  wgsl: Record<string, string>,
+  bindings: boolean | BindingOptions = true
+): LinkResult {
+  const registry = new ModuleRegistry({ wgsl, bindings });
+  return registry.linkWithSourceMap("./main");
+}
+
+test("reassign colliding bindings from imported modules", () => {
+  const main = `
+    import ./lights/lights
+    import ./camera/camera
+    fn main() { let a = lights[0]; let b = camera; }
+  `;
+  const lights = `
+    export @group(0) @binding(0) var<storage> lights: array<vec4f>;
+  `;
+  const camera = `
+    export @group(0) @binding(0) var<uniform> camera: mat4x4f;
+  `;
+  const wgsl = {
+    "./main.wgsl": main,
+    "./lights.wgsl": lights,
+    "./camera.wgsl": camera,
+  };
+  const { dest, bindings } = linkBindings(wgsl);
+  expect(dest).includes("@group(0) @binding(0) var<storage> lights");
+  expect(dest).includes("@group(0) @binding(1) var<uniform> camera");
+  expect(bindings).toEqual([
+    {
+      modulePath: "_root/lights.wgsl",
+      name: "lights",
+      linkName: "lights",
+      group: 0,
+      binding: 0,
+    },
+    {
+      modulePath: "_root/camera.wgsl",
+      name: "camera",
+      linkName: "camera",
+      group: 0,
+      binding: 1,
+    },
+  ]);
+});
+
+test("allocate bindings for resource vars without attributes", () => {
+  const main = `
+    @group(1) @binding(0) var<uniform> params: vec4f;
+    var tex: texture_2d<f32>;
+    @group(1) var samp: sampler;
+    var<private> counter: u32;
+    fn main() { }
+  `;
+  const { dest, bindings } = linkBindings({ "./main.wgsl": main });
+  expect(dest).includes("@group(0) @binding(0) var tex: texture_2d<f32>;");
+  expect(dest).includes("@group(1) @binding(1) var samp: sampler;");
+  expect(dest).includes("var<private> counter: u32;");
+  expect(bindings?.map((b) => b.name)).toEqual(["params", "tex", "samp"]);
+});
+
+test("pinned bindings take precedence", () => {
+  const main = `
+    import ./util/data
+    @group(0) @binding(0) var<uniform> params: vec4f;
+    fn main() { let x = data[0]; }
+  `;
+  const util = `
+    export @group(0) @binding(3) var<storage> data: array<f32>;
+  `;
+  const wgsl = { "./main.wgsl": main, "./util.wgsl": util };
+  const pin = { modulePath: "_root/util", name: "data", group: 0, binding: 0 };
+  const pinned = [pin];
+  const { dest, bindings } = linkBindings(wgsl, { pinned });
+  expect(dest).includes("@group(0) @binding(0) var<storage> data");
+  expect(dest).includes("@group(0) @binding(1) var<uniform> params");
+  const data = bindings?.find((b) => b.name === "data");
+  expect(data?.modulePath).eq("_root/util.wgsl");
+});
+
+test("binding table reports renamed vars", () => {
+  const main = `
+    import ./util/foo
+    @group(0) @binding(0) var<uniform> u: f32;
+    fn main() { foo(); }
+  `;
+  const util = `
+    @group(0) @binding(0) var<uniform> u: f32;
+    export fn foo() { let a = u; }
+  `;
+  const wgsl = { "./main.wgsl": main, "./util.wgsl": util };
+  const { dest, bindings } = linkBindings(wgsl);
+  expect(dest).includes("@group(0) @binding(1) var<uniform> u0: f32;");
+  expect(dest).includes("let a = u0;");
+  const renamed = bindings?.find((b) => b.linkName === "u0");
+  expect(renamed).toMatchObject({ modulePath: "_root/util.wgsl", name: "u" });
+});
+
+test("bindings are unchanged without allocation", () => {
+  const main = `
+    import ./util/data
+    @group(0) @binding(0) var<uniform> params: vec4f;
+    fn main() { let x = data[0]; }
+  `;
+  const util = `
+    export @group(0) @binding(0) var<storage> data: array<f32>;
+  `;
+  const registry = new ModuleRegistry({
+    wgsl: { "./main.wgsl": main, "./util.wgsl": util },
+  });
+  const { dest, bindings } = registry.linkWithSourceMap("./main");
+  expect(dest).includes("@group(0) @binding(0) var<storage> data");
+  expect(bindings).toBeUndefined();
+});
@@ -1,7 +1,10 @@
 import { srcLog, _withBaseLogger } from "mini-parse";
 import { expectNoLogErr, logCatch } from "mini-parse/test-util";
 import { expect, test } from "vitest";
-import { processConditionals } from "../Conditionals.js";
+import {
+  processConditionalDefines,
+  processConditionals,
+} from "../Conditionals.js";
 
 test("parse #if #endif", () => {
   const src = `
@@ -178,3 +181,185 @@ test("unterminated #else", () => {
       ^"
   `);
 });
+
+test("#if with && || and parentheses", () => {
+  const src = `
+    #if HAS_F16 && (QUALITY > 2 || DEBUG)
+      fn f() { }
+    #else
+      fn g() { }
+    #endif
+    `;
+  const high = processConditionals(src, { HAS_F16: true, QUALITY: 3 }).dest;
+  expect(high).contains("fn f()");
+  expect(high).not.contains("fn g()");
+
+  const debug = { HAS_F16: true, QUALITY: 1, DEBUG: true };
+  expect(processConditionals(src, debug).dest).contains("fn f()");
+
+  const low = processConditionals(src, { HAS_F16: true, QUALITY: 1 }).dest;
+  expect(low).contains("fn g()");
+  expect(low).not.contains("fn f()");
+});
+
+test("#if comparing with string and numeric literals", () => {
+  const src = `
+    #if backend == "vulkan" && !(version < 1.5)
+      fn f() { }
+    #endif
+    `;
+  const params = { backend: "vulkan", version: 2 };
+  expect(processConditionals(src, params).dest).contains("fn f()");
+
+  const old = { backend: "vulkan", version: 1 };
+  expect(processConditionals(src, old).dest).not.contains("fn f()");
+
+  const other = { backend: "metal", version: 2 };
+  expect(processConditionals(src, other).dest).not.contains("fn f()");
+});
+
+test("#if with && binding tighter than ||", () => {
+  const src = `
+    #if a || b && c
+      fn f() { }
+    #endif
+    `;
+  expect(processConditionals(src, { a: true }).dest).contains("fn f()");
+  expect(processConditionals(src, { b: true }).dest).not.contains("fn f()");
+});
+
+test("#if with invalid expression", () => {
+  const src = `
+  #if (foo
+  #endif
+  `;
+  const { log, logged } = logCatch();
+  _withBaseLogger(log, () => {
+    processConditionals(src, {});
+  });
+  expect(logged()).toContain("expected text ')'");
+});
+
+test("#elif chain takes the first true clause", () => {
+  const src = `
+    #if TONEMAP == "aces"
+      fn aces() { }
+    #elif TONEMAP == "reinhard"
+      fn reinhard() { }
+    #elseif FILMIC
+      fn filmic() { }
+    #else
+      fn linear() { }
+    #endif
+    `;
+  const fns = (params: Record<string, any>): string[] => {
+    const { dest } = processConditionals(src, params);
+    return [...dest.matchAll(/fn (\w+)/g)].map((m) => m[1]);
+  };
+  expect(fns({ TONEMAP: "aces", FILMIC: true })).toEqual(["aces"]);
+  expect(fns({ TONEMAP: "reinhard", FILMIC: true })).toEqual(["reinhard"]);
+  expect(fns({ FILMIC: true })).toEqual(["filmic"]);
+  expect(fns({})).toEqual(["linear"]);
+});
+
+test("#elif inside a skipped #if", () => {
+  const src = `
+    #if outer
+      #if a
+        fn a() { }
+      #elif b
+        fn b() { }
+      #endif
+    #endif
+    `;
+  const { dest } = processConditionals(src, { b: true });
+  expect(dest).not.contains("fn");
+});
+
+test("#elif after #else", () => {
+  const src = `
+  #if foo
+  #else
+  #elif bar
+  #endif
+  `;
+  const { log, logged } = logCatch();
+  _withBaseLogger(log, () => {
+    processConditionals(src, {});
+  });
+  expect(logged()).toMatchInlineSnapshot(`
+    "#elif after #else
+      #elif bar   Ln 4
+      ^        ^"
+  `);
+});
+
+test("#else after #else", () => {
+  const src = `
+  #if foo
+  #else
+  #else
+  #endif
+  `;
+  const { log, logged } = logCatch();
+  _withBaseLogger(log, () => {
+    processConditionals(src, {});
+  });
+  expect(logged()).toMatchInlineSnapshot(`
+    "#else after #else
+      #else   Ln 4
+      ^    ^"
+  `);
+});
+
+test("unmatched #elif", () => {
+  const src = `
+  #elif bar
+  `;
+  const { log, logged } = logCatch();
+  _withBaseLogger(log, () => {
+    processConditionals(src, {});
+  });
+  expect(logged()).toContain("unmatched #elif");
+});
+
+test("#define and #undef", () => {
+  const src = `
+    #define QUALITY 3
+    #define DEBUG
+    #if QUALITY > 2 && DEBUG
+      fn hq() { }
+    #endif
+    #undef DEBUG
+    #if DEBUG
+      fn debug() { }
+    #endif
+    `;
+  const { dest } = processConditionals(src, {});
+  expect(dest).contains("fn hq() { }");
+  expect(dest).not.contains("fn debug");
+  expect(dest).not.contains("#define");
+});
+
+test("runtime params override #define", () => {
+  const src = `
+    #define QUALITY 3
+    #if QUALITY > 2
+      fn hq() { }
+    #endif
+    `;
+  const { dest } = processConditionals(src, { QUALITY: 1 });
+  expect(dest).not.contains("fn hq");
+});
+
+test("#define in a skipped #if", () => {
+  const src = `
+    #if foo
+      #export define SIZE 8
+    #endif
+    #define NAME "hello"
+    `;
+  const result = processConditionalDefines(src, {});
+  expect(result.params).toEqual({ NAME: "hello" });
+  expect(result.exportDefines).toEqual({});
+});
@@ -0,0 +1,196 @@
+import { expectNoLogErr } from "mini-parse/test-util";
+import { expect, test } from "vitest";
+import { Diagnostic, LinkError } from "../Diagnostics.js";
+import { ModuleRegistry } from "../ModuleRegistry.js";
+
+test("report unresolved reference", () => {
+  const src = `
+    fn main() {
+      foo();
+    }
+  `;
+  const registry = new ModuleRegistry({ wgsl: { "./main.wgsl": src } });
+  const diagnostics: Diagnostic[] = [];
+  registry.link("./main", {}, (d) => diagnostics.push(d));
+
+  expect(diagnostics.length).eq(1);
+  const [d] = diagnostics;
+  expect(d.code).eq("unresolved-reference");
+  expect(d.severity).eq("error");
+  expect(d.message).includes("foo");
+  expect(d.modulePath).eq("_root/main.wgsl");
+  expect(d.start).eq(src.indexOf("foo"));
+  expect(d.lineNum).eq(3);
+  expect(d.linePos).eq(7);
+});
+
+test("report unmatched #if in an imported module", () => {
+  const main = `
+    import ./util/bar;
+    fn main() { bar(); }
+  `;
+  const util = `
+    export fn bar() {
+      #if DEBUG
+    }
+  `;
+  const wgsl = { "./main.wgsl": main, "./util.wgsl": util };
+  const registry = new ModuleRegistry({ wgsl });
+  const diagnostics: Diagnostic[] = [];
+  registry.link("./main", {}, (d) => diagnostics.push(d));
+
+  const unmatched = diagnostics.find((d) => d.code === "unmatched-conditional");
+  expect(unmatched?.modulePath).eq("_root/util.wgsl");
+  expect(unmatched?.lineNum).eq(3);
+});
+
+test("report parse error", () => {
+  const src = `
+    fn main() {
+      let x = 1;
+  `;
+  const registry = new ModuleRegistry({ wgsl: { "./main.wgsl": src } });
+  const diagnostics: Diagnostic[] = [];
+  registry.link("./main", {}, (d) => diagnostics.push(d));
+
+  const parseErr = diagnostics.find((d) => d.code === "parse");
+  expect(parseErr).toBeDefined();
+  expect(parseErr?.modulePath).eq("_root/main.wgsl");
+});
+
+test("no console logging with a diagnostic handler", () => {
+  const src = `
+    fn main() {
+      foo();
+    }
+  `;
+  const registry = new ModuleRegistry({ wgsl: { "./main.wgsl": src } });
+  const diagnostics: Diagnostic[] = [];
+  const sink = (d: Diagnostic): number => diagnostics.push(d);
+  expectNoLogErr(() => registry.link("./main", {}, sink));
+  expect(diagnostics.length).eq(1);
+});
+
+test("linkWithSourceMap returns diagnostics", () => {
+  const src = `
+    #export
+    const_assert true;
+
+    fn main() {
+      bar();
+    }
+  `;
+  const registry = new ModuleRegistry({ wgsl: { "./main.wgsl": src } });
+  const { diagnostics } = registry.linkWithSourceMap("./main");
+
+  const codes = diagnostics.map((d) => d.code);
+  expect(codes).toEqual(["export-target", "unresolved-reference"]);
+});
+
+test("strict link throws a LinkError listing all problems", () => {
+  const main = `
+    import foo(ext.workgroupSize) from ./file1
+
+    fn main() {
+      let s: Missing;
+      foo();
+      bar();
+    }
+    #if DEBUG
+  `;
+  const file1 = `
+    #template nonesuch
+    export(threads)
+    fn foo() { }
+  `;
+  const wgsl = { "./main.wgsl": main, "./file1.wgsl": file1 };
+  const registry = new ModuleRegistry({ wgsl, strict: true });
+
+  let error: LinkError | undefined;
+  try {
+    registry.link("./main");
+  } catch (e) {
+    error = e as LinkError;
+  }
+  expect(error).toBeInstanceOf(LinkError);
+  const codes = error!.diagnostics.map((d) => d.code);
+  const unresolved = codes.filter((c) => c === "unresolved-reference");
+  expect(unresolved.length).eq(2);
+  expect(codes).toEqual(
+    expect.arrayContaining([
+      "missing-ext-param",
+      "template-not-found",
+      "unmatched-conditional",
+    ])
+  );
+  expect(error!.message).includes(
+    "_root/main.wgsl:7:7 reference not found: bar"
+  );
+});
+
+test("strict link succeeds without problems", () => {
+  const src = `
+    fn main() { }
+  `;
+  const registry = new ModuleRegistry({ wgsl: { "./main.wgsl": src } });
+  const linked = registry.parsed().link("./main", true);
+  expect(linked).includes("fn main");
+});
+
+test("report mismatched import args at the import and the export", () => {
+  const main = `
+    #import foo(A, B) from ./file1
+    fn main() { foo(); }
+  `;
+  const file1 = `
+    #export(C)
+    fn foo() { }
+  `;
+  const wgsl = { "./main.wgsl": main, "./file1.wgsl": file1 };
+  const registry = new ModuleRegistry({ wgsl });
+  const diagnostics: Diagnostic[] = [];
+  registry.link("./main", {}, (d) => diagnostics.push(d));
+
+  const mismatched = diagnostics.filter((d) => d.code === "import-args");
+  const located = mismatched.map((d) => [d.modulePath, d.lineNum]);
+  expect(located).toEqual([
+    ["_root/main.wgsl", 2],
+    ["_root/file1.wgsl", 2],
+  ]);
+  expect(mismatched[1].message).includes("_root/main.wgsl");
+});
+
+test("report skipped text as a parse warning", () => {
+  const src = `
+    fn main() { $ }
+  `;
+  const registry = new ModuleRegistry({ wgsl: { "./main.wgsl": src } });
+  const diagnostics: Diagnostic[] = [];
+  registry.link("./main", {}, (d) => diagnostics.push(d));
+
+  const skipped = diagnostics.filter((d) => d.message.startsWith("skipped"));
+  expect(skipped.length).toBeGreaterThan(0);
+  expect(skipped.every((d) => d.severity === "warning")).toBe(true);
+});
+
+test("strict link ignores parse errors in modules it doesn't reach", () => {
+  const main = `
+    import ./util/bar;
+    fn main() { bar(); }
+  `;
+  const util = `
+    export fn bar() { }
+  `;
+  const broken = `
+    fn broken() {
+  `;
+  const wgsl = { "./main.wgsl": main, "./util.wgsl": util };
+  const unrelated = { ...wgsl, "./other.wgsl": broken };
+  const registry = new ModuleRegistry({ wgsl: unrelated, strict: true });
+  expect(registry.link("./main")).includes("fn bar");
+  expect(registry.linkWithSourceMap("./main").diagnostics).toEqual([]);
+
+  const imported = { ...wgsl, "./util.wgsl": util + broken };
+  const importing = new ModuleRegistry({ wgsl: imported, strict: true });
+  expect(() => importing.link("./main")).toThrow(LinkError);
+});
@@ -0,0 +1,143 @@
+import { expect, test } from "vitest";
+import { ModuleRegistry } from "../ModuleRegistry.js";
+import { parseModule } from "../ParseModule.js";
+
+function link(
+  wgsl: Record<string, string>,
+  params: Record<string, any> = {}
+): string {
+  const registry = new ModuleRegistry({ wgsl });
+  return registry.link("./main", params);
+}
+
+test("@if on global declarations", () => {
+  const src = `
+    @if(HAS_F16) const half = 1.0h;
+    @if(!HAS_F16) const half = 1.0;
+
+    @if(DEBUG && LEVEL > 1)
+    fn debug() { }
+
+    @if(DEBUG) struct Trace { count: u32 }
+    @if(DEBUG) alias Index = u32;
+
+    fn main() { }
+  `;
+  const linked = link({ "./main.wgsl": src }, { HAS_F16: true });
+  expect(linked).includes("const half = 1.0h;");
+  expect(linked).not.includes("const half = 1.0;");
+  expect(linked).not.includes("@if");
+  expect(linked).not.includes("fn debug");
+  expect(linked).not.includes("Trace");
+  expect(linked).not.includes("Index");
+
+  const debug = link({ "./main.wgsl": src }, { DEBUG: true, LEVEL: 2 });
+  expect(debug).includes("const half = 1.0;");
+  expect(debug).includes("fn debug() { }");
+  expect(debug).includes("struct Trace {\n  count: u32\n}");
+  expect(debug).includes("alias Index = u32;");
+});
+
+test("@if on struct members and fn params", () => {
+  const src = `
+    struct Vertex {
+      pos: vec3f,
+      @if(SKINNED) @location(1) weights: vec4f,
+      @if(SKINNED) joints: vec4u,
+      uv: vec2f,
+    }
+
+    fn main(a: f32, @if(EXTRA) b: f32, c: f32) { }
+  `;
+  const module = parseModule(src, "main");
+  expect(module.structs[0].members.map((m) => m.name)).toEqual(["pos", "uv"]);
+  expect(module.fns[0].params.map((p) => p.name)).toEqual(["a", "c"]);
+
+  const skinned = parseModule(src, "main", { SKINNED: true, EXTRA: true });
+  const members = skinned.structs[0].members.map((m) => m.name);
+  expect(members).toEqual(["pos", "weights", "joints", "uv"]);
+  const weights = skinned.structs[0].members[1];
+  expect(weights.attributes.map((a) => a.name)).toEqual(["location"]);
+  expect(skinned.fns[0].params.map((p) => p.name)).toEqual(["a", "b", "c"]);
+});
+
+test("@if on statements", () => {
+  const src = `
+    fn main() {
+      var x = 1;
+      @if(DEBUG) {
+        x = 2;
+      }
+      @if(!DEBUG) x = 3;
+      @if(DEBUG) let y = x;
+    }
+  `;
+  const linked = link({ "./main.wgsl": src });
+  expect(linked).includes("x = 3;");
+  expect(linked).not.includes("x = 2;");
+  expect(linked).not.includes("let y");
+  expect(linked).not.includes("@if");
+});
+
+test("@if removes calls from the link", () => {
+  const main = `
+    import ./util/debugLog
+    fn main() {
+      @if(DEBUG) debugLog();
+    }
+  `;
+  const util = `
+    export fn debugLog() { }
+  `;
+  const wgsl = { "./main.wgsl": main, "./util.wgsl": util };
+  expect(link(wgsl)).not.includes("debugLog");
+  expect(link(wgsl, { DEBUG: true })).includes("fn debugLog() { }");
+});
+
+test("@if on imports", () => {
+  const main = `
+    @if(FANCY) import ./fancy/shade
+    @if(!FANCY) import ./plain/shade
+    fn main() { shade(); }
+  `;
+  const fancy = `export fn shade() { /* fancy */ }`;
+  const plain = `export fn shade() { /* plain */ }`;
+  const wgsl = {
+    "./main.wgsl": main,
+    "./fancy.wgsl": fancy,
+    "./plain.wgsl": plain,
+  };
+  expect(link(wgsl, { FANCY: true })).includes("fancy");
+  expect(link(wgsl, { FANCY: true })).not.includes("plain");
+  expect(link(wgsl)).includes("plain");
+});
+
+test("@if on exported fn", () => {
+  const main = `
+    import ./util/helper
+    fn main() { helper(); }
+  `;
+  const util = `
+    export @if(NEW) fn helper() { /* new */ }
+    export @if(!NEW) fn helper() { /* old */ }
+  `;
+  const wgsl = { "./main.wgsl": main, "./util.wgsl": util };
+  const linked = link(wgsl, { NEW: true });
+  expect(linked).includes("/* new */");
+  expect(linked).not.includes("/* old */");
+});
+
+test("map through @if removal", () => {
+  const src = `
+    fn main() {
+      @if(DEBUG) debugOnly();
+      let x = 7;
+    }
+  `;
+  const registry = new ModuleRegistry({ wgsl: { "./main.wgsl": src } });
+  const { dest, srcMap } = registry.linkWithSourceMap("./main");
+  expect(dest).not.includes("debugOnly");
+
+  const [mapped] = srcMap.mapPositions(dest.indexOf("let x"));
+  expect(mapped.position).eq(src.indexOf("let x"));
+});
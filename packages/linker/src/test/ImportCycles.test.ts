@@ -0,0 +1,62 @@
+import { expect, test } from "vitest";
+import { collectDiagnostics } from "../Diagnostics.js";
+import { reportImportCycles } from "../ImportCycles.js";
+import { ModuleRegistry } from "../ModuleRegistry.js";
+
+test("report import cycles", () => {
+  const wgsl = {
+    "./a.wgsl": "import ./b/bar\nexport fn foo() { bar(); }",
+    "./b.wgsl":
+      "import ./c/zap\n\nimport ./a/foo\nexport fn bar() { foo(); zap(); }",
+    "./c.wgsl": "export fn zap() { }",
+  };
+  const parsed = new ModuleRegistry({ wgsl }).parsed();
+  const [, diagnostics] = collectDiagnostics(() => reportImportCycles(parsed));
+  expect(diagnostics.length).eq(1);
+  const [cycle] = diagnostics;
+  expect(cycle.code).eq("import-cycle");
+  expect(cycle.message).includes(
+    "_root/a.wgsl -> _root/b.wgsl -> _root/a.wgsl"
+  );
+  expect(cycle.modulePath).eq("_root/b.wgsl");
+  expect(cycle.lineNum).eq(3);
+});
+
+test("no cycles in shared imports", () => {
+  const wgsl = {
+    "./a.wgsl": "import ./b/bar\nimport ./c/zap\nfn foo() { bar(); zap(); }",
+    "./b.wgsl": "import ./c/zap\nexport fn bar() { zap(); }",
+    "./c.wgsl": "export fn zap() { }",
+  };
+  const parsed = new ModuleRegistry({ wgsl }).parsed();
+  const [, diagnostics] = collectDiagnostics(() => reportImportCycles(parsed));
+  expect(diagnostics).toEqual([]);
+});
+
+test("report cycles through the same modules in each order", () => {
+  const wgsl = {
+    "./a.wgsl": "import ./b/bar\nimport ./c/zap\nexport fn foo() { }",
+    "./b.wgsl": "import ./c/zap\nimport ./a/foo\nexport fn bar() { }",
+    "./c.wgsl": "import ./a/foo\nimport ./b/bar\nexport fn zap() { }",
+  };
+  const parsed = new ModuleRegistry({ wgsl }).parsed();
+  const [, diagnostics] = collectDiagnostics(() => reportImportCycles(parsed));
+  const cycles = diagnostics.map((d) => d.message.replace(/_root\//g, ""));
+  expect(cycles.sort()).toEqual([
+    "import cycle: a.wgsl -> b.wgsl -> a.wgsl",
+    "import cycle: a.wgsl -> b.wgsl -> c.wgsl -> a.wgsl",
+    "import cycle: a.wgsl -> c.wgsl -> a.wgsl",
+    "import cycle: a.wgsl -> c.wgsl -> b.wgsl -> a.wgsl",
+    "import cycle: b.wgsl -> c.wgsl -> b.wgsl",
+  ]);
+});
+
+test("report a cycle once for parallel imports", () => {
+  const wgsl = {
+    "./a.wgsl": "import ./b/bar\nimport ./b/zap\nexport fn foo() { }",
+    "./b.wgsl": "import ./a/foo\nexport fn bar() { }\nexport fn zap() { }",
+  };
+  const parsed = new ModuleRegistry({ wgsl }).parsed();
+  const [, diagnostics] = collectDiagnostics(() => reportImportCycles(parsed));
+  expect(diagnostics.length).eq(1);
+});
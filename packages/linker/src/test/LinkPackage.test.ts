@@ -1,6 +1,10 @@
 import { expect, test } from "vitest";
 import lib from "wgsl-rand";
+import { collectDiagnostics } from "../Diagnostics.js";
+import { importedPackages } from "../ModuleLoader.js";
 import { ModuleRegistry } from "../ModuleRegistry.js";
+import { parseModule } from "../ParseModule.js";
+import { WgslBundle } from "../WgslBundle.js";
 
 test("import rand() from a package", () => {
   const src = `
@@ -22,3 +26,121 @@ test("import rand() from a package", () => {
   const result = registry.link("./main");
   expect(result).includes("fn pcg_2u_3f");
 });
+
+const edition = "wesl_unstable_2024_1";
+
+test("link with a library's dependencies", () => {
+  const hash: WgslBundle = {
+    name: "hash",
+    version: "1.0.0",
+    edition,
+    modules: { "lib.wgsl": "export fn hash() { /* hash */ }" },
+  };
+  const noise: WgslBundle = {
+    name: "noise",
+    version: "0.2.0",
+    edition,
+    modules: { "lib.wgsl": "import hash/hash\nexport fn noise() { hash(); }" },
+    dependencies: [hash],
+  };
+  const wgsl = { "./main.wgsl": "import noise/noise\nfn main() { noise(); }" };
+  const registry = new ModuleRegistry({ wgsl, libs: [noise] });
+  expect(registry.link("./main")).includes("/* hash */");
+});
+
+test("report mismatched dependency versions", () => {
+  const hash = (version: string): WgslBundle => ({
+    name: "hash",
+    version,
+    edition,
+    modules: { "lib.wgsl": `export fn hash() { /* hash ${version} */ }` },
+  });
+  const noise: WgslBundle = {
+    name: "noise",
+    version: "0.2.0",
+    edition,
+    modules: { "lib.wgsl": "export fn noise() { }" },
+    dependencies: [hash("1.0.0")],
+  };
+  const wgsl = { "./main.wgsl": "import hash/hash\nfn main() { hash(); }" };
+  const [registry, diagnostics] = collectDiagnostics(
+    () => new ModuleRegistry({ wgsl, libs: [hash("2.0.0"), noise] })
+  );
+  expect(diagnostics.map((d) => d.code)).toEqual(["bundle-version"]);
+  expect(diagnostics[0].severity).eq("warning");
+  expect(registry.libDiagnostics).toEqual(diagnostics);
+  expect(registry.link("./main")).includes("/* hash 2.0.0 */");
+});
+
+test("report mismatched dependency versions with each link", () => {
+  const hash = (version: string): WgslBundle => ({
+    name: "hash",
+    version,
+    edition,
+    modules: { "lib.wgsl": "export fn hash() { }" },
+  });
+  const noise: WgslBundle = {
+    name: "noise",
+    version: "0.2.0",
+    edition,
+    modules: { "lib.wgsl": "export fn noise() { }" },
+    dependencies: [hash("1.0.0")],
+  };
+  const wgsl = { "./main.wgsl": "import hash/hash\nfn main() { hash(); }" };
+  const [registry] = collectDiagnostics(
+    () => new ModuleRegistry({ wgsl, libs: [hash("2.0.0"), noise] })
+  );
+
+  const codes = (): string[] => {
+    const reported: string[] = [];
+    registry.link("./main", {}, (d) => reported.push(d.code));
+    return reported;
+  };
+  expect(codes()).toEqual(["bundle-version"]);
+  expect(codes()).toEqual(["bundle-version"]); // cached link
+
+  const { diagnostics } = registry.linkWithSourceMap("./main");
+  expect(diagnostics.map((d) => d.code)).toEqual(["bundle-version"]);
+});
+
+test("check dependency versions against the declared ranges", () => {
+  const hash = (version: string): WgslBundle => ({
+    name: "hash",
+    version,
+    edition,
+    modules: { "lib.wgsl": "export fn hash() { }" },
+  });
+  const noise = (range: string): WgslBundle => ({
+    name: "noise",
+    version: "0.2.0",
+    edition,
+    modules: { "lib.wgsl": "export fn noise() { }" },
+    dependencies: [hash("1.0.0")],
+    dependencyVersions: { hash: range },
+  });
+  const versionProblems = (libs: WgslBundle[]): string[] => {
+    const [, diagnostics] = collectDiagnostics(
+      () => new ModuleRegistry({ libs })
+    );
+    return diagnostics.map((d) => d.message);
+  };
+
+  expect(versionProblems([hash("1.3.0"), noise("^1.0.0")])).toEqual([]);
+  expect(versionProblems([hash("2.0.0"), noise("^1.0.0")])).toEqual([
+    "package hash ^1.0.0 required by noise doesn't match the registered version 2.0.0",
+  ]);
+  expect(versionProblems([noise("^1.2.0")])).toEqual([
+    "package hash ^1.2.0 required by noise doesn't match the registered version 1.0.0",
+  ]);
+});
+
+test("importedPackages", () => {
+  const src = `
+    import ./util/foo
+    import rand/pcg
+    import noise/{perlin, simplex}
+    fn main() { }
+  `;
+  const module = parseModule(src, "./main.wgsl");
+  expect(importedPackages(module)).toEqual(["rand", "noise"]);
+});
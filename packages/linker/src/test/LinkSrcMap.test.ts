@@ -0,0 +1,114 @@
+import { expect, test } from "vitest";
+import { ModuleRegistry } from "../ModuleRegistry.js";
+import { simpleTemplate } from "../templates/SimpleTemplate.js";
+
+test("map linked text to root module src", () => {
+  const src = `
+    fn main() { 
+      let x = 7; 
+    }
+  `;
+  const registry = new ModuleRegistry({ wgsl: { "./main.wgsl": src } });
+  const { dest, srcMap } = registry.linkWithSourceMap("./main");
+
+  const destPos = dest.indexOf("let x");
+  const [mapped] = srcMap.mapPositions(destPos);
+  expect(mapped.srcPath).eq("_root/main.wgsl");
+  expect(mapped.position).eq(src.indexOf("let x"));
+});
+
+test("map through #if conditionals", () => {
+  const src = `
+    fn main() {
+      #if DEBUG
+        debugOnly();
+      #endif
+      let x = 7;
+    }
+  `;
+  const registry = new ModuleRegistry({ wgsl: { "./main.wgsl": src } });
+  const { dest, srcMap } = registry.linkWithSourceMap("./main", {
+    DEBUG: false,
+  });
+  expect(dest).not.includes("debugOnly");
+
+  const [mapped] = srcMap.mapPositions(dest.indexOf("let x"));
+  expect(mapped.position).eq(src.indexOf("let x"));
+});
+
+test("map renamed import to imported module src", () => {
+  const src = `
+    import ./file1/foo
+    fn main() { foo(); }
+    fn foo() { /* root */ }
+  `;
+  const file1 = `
+    export fn foo() { 
+      let y = 1; 
+    }
+  `;
+  const registry = new ModuleRegistry({
+    wgsl: { "./main.wgsl": src, "./file1.wgsl": file1 },
+  });
+  const { dest, srcMap } = registry.linkWithSourceMap("./main");
+  expect(dest).includes("fn foo0()");
+
+  const [renamed, body] = srcMap.mapPositions(
+    dest.indexOf("fn foo0") + "fn ".length,
+    dest.indexOf("let y")
+  );
+  expect(renamed.srcPath).eq("_root/file1.wgsl");
+  expect(renamed.position).eq(file1.indexOf("foo"));
+  expect(body.srcPath).eq("_root/file1.wgsl");
+  expect(body.position).eq(file1.indexOf("let y"));
+});
+
+test("map struct members", () => {
+  const src = `
+    struct Point {
+      x: f32,
+      y: f32,
+    }
+  `;
+  const registry = new ModuleRegistry({ wgsl: { "./main.wgsl": src } });
+  const { dest, srcMap } = registry.linkWithSourceMap("./main");
+
+  const [struct, member] = srcMap.mapPositions(
+    dest.indexOf("struct"),
+    dest.indexOf("y: f32")
+  );
+  expect(struct.position).eq(src.indexOf("struct"));
+  expect(member.position).eq(src.indexOf("y: f32"));
+});
+
+test("map through template replacement", () => {
+  const src = `
+    #template simple
+    fn main() {
+      for (var i = 0; i < threads; i++) { }
+      let z = 1;
+    }
+  `;
+  const registry = new ModuleRegistry({
+    wgsl: { "./main.wgsl": src },
+    templates: [simpleTemplate],
+  });
+  const { dest, srcMap } = registry.linkWithSourceMap("./main", {
+    threads: 128,
+  });
+  expect(dest).includes("i < 128");
+
+  const [mapped] = srcMap.mapPositions(dest.indexOf("let z"));
+  expect(mapped.srcPath).eq("_root/main.wgsl");
+  expect(mapped.position).eq(src.indexOf("let z"));
+});
+
+test("linked struct text", () => {
+  const src = `
+    struct Point { x: f32, y: f32 }
+    fn main() { let p = Point(1.0, 2.0); }
+  `;
+  const registry = new ModuleRegistry({ wgsl: { "./main.wgsl": src } });
+  const { dest } = registry.linkWithSourceMap("./main");
+  expect(dest).includes("struct Point {\n  x: f32,\n  y: f32\n}");
+});
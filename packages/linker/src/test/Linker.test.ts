@@ -52,7 +52,67 @@ test("#template in src", () => {
   expect(linked).includes("step < 128");
 });
 
+test("#define values in templates", () => {
+  const src = `
+    #template simple
+    #define threads 64
+    fn main() {
+      for (var step = 0; step < threads; step++) { 
+      }
+    }
+  `;
+  const templates = [simpleTemplate];
+  const linked = linkTestOpts({ templates }, src);
+  expect(linked).includes("step < 64");
+  expect(linked).not.includes("#define");
+});
 
+test("#export define visible to importers", () => {
+  const src = `
+    import ./file1/reduce
+    #if FAST_REDUCE
+    fn main() { reduce(); }
+    #endif
+  `;
+  const module1 = `
+    #export define FAST_REDUCE
+    #define LOCAL_ONLY
+    export fn reduce() { }
+  `;
+  const linked = linkTestOpts({}, src, module1);
+  expect(linked).includes("fn main() { reduce(); }");
+  expect(linked).includes("fn reduce() { }");
+
+  const slow = linkTestOpts(
+    { runtimeParams: { FAST_REDUCE: false } },
+    src,
+    module1
+  );
+  expect(slow).not.includes("fn main");
+});
+
+test("#export define from an import's import", () => {
+  const src = `
+    import ./file1/blur
+    #if FAST_BLUR
+    fn main() { blur(); }
+    #endif
+  `;
+  const module1 = `
+    import ./file2/reduce
+    #if FAST_REDUCE
+      #export define FAST_BLUR
+    #endif
+    export fn blur() { reduce(); }
+  `;
+  const module2 = `
+    #export define FAST_REDUCE
+    export fn reduce() { }
+  `;
+  const linked = linkTestOpts({}, src, module1, module2);
+  expect(linked).includes("fn main() { blur(); }");
+  expect(linked).includes("fn reduce() { }");
+});
 
 /** requires 'module' syntax, which may not make the shared design */
 test("import foo from zap (multiple modules)", () => {
@@ -218,4 +278,233 @@ test("import with simple template", () => {
   });
   const linked = registry.link("./main", { WORKGROUP_SIZE: "128" });
   expect(linked).includes("step < 128");
-});
\ No newline at end of file
+});
+/* --- renaming with local declarations that shadow module scope names --- */
+
+test("rename imported fn to avoid a local let", () => {
+  const src = `
+    import ./file1/bar
+    fn main() { bar(); }
+    fn foo() { }
+  `;
+  const module1 = `
+    export fn bar() {
+      let foo0 = 1;
+      foo();
+    }
+    fn foo() { }
+  `;
+  const linked = linkTest(src, module1);
+  expect(linked).includes("let foo0 = 1;");
+  expect(linked).includes("foo1();");
+  expect(linked).includes("fn foo1()");
+  expect(linked).not.includes("fn foo0()");
+});
+
+test("rename imported fn to avoid a fn param", () => {
+  const src = `
+    import ./file1/bar
+    fn main() { bar(1); }
+    fn foo() { }
+  `;
+  const module1 = `
+    export fn bar(foo0: i32) {
+      foo();
+    }
+    fn foo() { }
+  `;
+  const linked = linkTest(src, module1);
+  expect(linked).includes("fn bar(foo0: i32)");
+  expect(linked).includes("foo1();");
+  expect(linked).includes("fn foo1()");
+});
+
+test("rename imported struct to avoid a loop variable", () => {
+  const src = `
+    import ./file1/bar
+    fn main() { bar(); }
+    struct Elem { a: f32 }
+  `;
+  const module1 = `
+    export fn bar() {
+      for (var Elem0 = 0; Elem0 < 4; Elem0++) {
+        let e = Elem(1.0);
+      }
+    }
+    struct Elem { b: u32 }
+  `;
+  const linked = linkTest(src, module1);
+  expect(linked).includes("let e = Elem1(1.0);");
+  expect(linked).includes("struct Elem1 {");
+});
+
+test("local declaration out of scope doesn't force a rename", () => {
+  const src = `
+    import ./file1/bar
+    fn main() { bar(); }
+    fn foo() { }
+  `;
+  const module1 = `
+    export fn bar() {
+      {
+        let foo0 = 1;
+      }
+      foo();
+    }
+    fn foo() { }
+  `;
+  const linked = linkTest(src, module1);
+  expect(linked).includes("foo0();");
+  expect(linked).includes("fn foo0()");
+});
+
+test("local declaration shadowing an imported fn isn't rewritten", () => {
+  const src = `
+    import ./file1/bar
+    import ./file1/zap as foo
+    fn main() { bar(); foo(); }
+  `;
+  const module1 = `
+    export fn bar() {
+      var zap = 1;
+      zap += 2;
+    }
+    export fn zap() { }
+  `;
+  const linked = linkTest(src, module1);
+  expect(linked).includes("var zap = 1;");
+  expect(linked).includes("zap += 2;");
+  expect(linked).includes("fn foo()");
+});
+
+/* --- imported global vars, consts, overrides and aliases --- */
+
+test("import a const", () => {
+  const src = `
+    import ./file1/N
+    fn main() { let x = N * 2; }
+  `;
+  const module1 = `
+    export const N = 4u;
+  `;
+  const linked = linkTest(src, module1);
+  expect(linked).includes("const N = 4u;");
+  expect(linked).includes("let x = N * 2;");
+});
+
+test("rename an imported fn's const on conflict", () => {
+  const src = `
+    import ./file1/foo
+    const size = 8;
+    fn main() { foo(); }
+  `;
+  const module1 = `
+    const size = 16;
+    export fn foo() {
+      var a: array<f32, size>;
+      let b = size + 1;
+    }
+  `;
+  const linked = linkTest(src, module1);
+  expect(linked).includes("const size = 8;");
+  expect(linked).includes("const size0 = 16;");
+  expect(linked).includes("var a: array<f32, size0>;");
+  expect(linked).includes("let b = size0 + 1;");
+});
+
+test("import a storage var and an override with 'as'", () => {
+  const src = `
+    import ./file1/{data as input, threads}
+    var<storage> data: array<u32>;
+    @compute @workgroup_size(threads)
+    fn main() { data[0] = input[0]; }
+  `;
+  const module1 = `
+    export @group(0) @binding(1) var<storage> data: array<u32>;
+    export override threads = 64;
+  `;
+  const linked = linkTest(src, module1);
+  expect(linked).includes("var<storage> input: array<u32>;");
+  expect(linked).includes("override threads = 64;");
+  expect(linked).includes("data[0] = input[0];");
+});
+
+test("deduplicate a var imported by two modules", () => {
+  const src = `
+    import ./file1/foo
+    import ./file2/bar
+    fn main() { foo(); bar(); }
+  `;
+  const module1 = `
+    import ./file3/counter
+    export fn foo() { counter += 1; }
+  `;
+  const module2 = `
+    import ./file3/counter
+    export fn bar() { counter -= 1; }
+  `;
+  const module3 = `
+    export var<private> counter: i32;
+  `;
+  const linked = linkTest(src, module1, module2, module3);
+  const matches = linked.match(/var<private> counter/g) ?? [];
+  expect(matches.length).eq(1);
+  expect(linked).includes("counter += 1;");
+  expect(linked).includes("counter -= 1;");
+});
+
+test("rename an imported alias on conflict", () => {
+  const src = `
+    import ./file1/foo
+    alias Vec = vec4f;
+    fn main() { foo(); }
+  `;
+  const module1 = `
+    alias Vec = vec2f;
+    export fn foo() -> Vec { return Vec(1.0, 2.0); }
+  `;
+  const linked = linkTest(src, module1);
+  expect(linked).includes("alias Vec = vec4f;");
+  expect(linked).includes("alias Vec0 = vec2f;");
+  expect(linked).includes("fn foo() -> Vec0 { return Vec0(1.0, 2.0); }");
+});
+
+test("struct member referencing an imported const", () => {
+  const src = `
+    import ./file1/Particles
+    @group(0) @binding(0) var<storage> particles: Particles;
+  `;
+  const module1 = `
+    const count = 128;
+    export struct Particles {
+      positions: array<vec2f, count>,
+    }
+  `;
+  const linked = linkTest(src, module1);
+  expect(linked).includes("const count = 128;");
+  expect(linked).includes("positions: array<vec2f, count>");
+});
+
+test("rename an imported global named like a builtin", () => {
+  const src = `
+    import ./file1/shade
+    fn position() { }
+
+    @vertex
+    fn main(@builtin(position) p: vec4f) -> @builtin(position) vec4f {
+      return shade().pos + p;
+    }
+  `;
+  const module1 = `
+    const position = vec4f(1.0);
+    struct Out { @builtin(position) pos: vec4f }
+    export fn shade() -> Out { return Out(position); }
+  `;
+  const linked = linkTest(src, module1);
+  expect(linked).includes(
+    "fn main(@builtin(position) p: vec4f) -> @builtin(position) vec4f {"
+  );
+  expect(linked).includes("const position0 = vec4f(1.0);");
+  expect(linked).includes("@builtin(position) pos: vec4f");
+  expect(linked).includes("return Out(position0);");
+});
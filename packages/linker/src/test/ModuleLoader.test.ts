@@ -0,0 +1,80 @@
+import { expect, test } from "vitest";
+import { ModuleLoader } from "../ModuleLoader.js";
+import { ModuleRegistry } from "../ModuleRegistry.js";
+
+/** a loader from an in memory record, logging the paths requested */
+function memoryLoader(
+  modules: Record<string, string>
+): ModuleLoader & { requested: string[] } {
+  const requested: string[] = [];
+  return {
+    requested,
+    load: async (modulePath) => {
+      requested.push(modulePath);
+      return modules[modulePath];
+    },
+  };
+}
+
+test("load imported modules on demand", async () => {
+  const loader = memoryLoader({
+    "./main": `
+      import ./util/math/dot2
+      fn main() { dot2(); }
+    `,
+    "./util/math": `
+      import ./shared/helper
+      export fn dot2() { helper(); }
+    `,
+    "./util/shared": `
+      export fn helper() { }
+    `,
+  });
+  const registry = new ModuleRegistry({ loader });
+  const linked = await registry.linkAsync("./main");
+  expect(linked).includes("fn main()");
+  expect(linked).includes("fn dot2()");
+  expect(linked).includes("fn helper()");
+  expect(loader.requested).toEqual([
+    "./main",
+    "./util/math/dot2",
+    "./util/math",
+    "./util/shared/helper",
+    "./util/shared",
+  ]);
+
+  // already loaded modules aren't loaded again
+  await registry.linkAsync("./main");
+  expect(loader.requested.length).eq(5);
+});
+
+test("load package modules", async () => {
+  const loader = memoryLoader({
+    rand: `export fn rand() { }`,
+  });
+  const main = `
+    import rand/rand
+    fn main() { rand(); }
+  `;
+  const registry = new ModuleRegistry({
+    wgsl: { "./main.wgsl": main },
+    loader,
+  });
+  const linked = await registry.linkAsync("./main");
+  expect(linked).includes("fn rand() { }");
+  expect(loader.requested).toEqual(["rand/rand", "rand"]);
+});
+
+test("don't load imports in false #if conditions", async () => {
+  const loader = memoryLoader({
+    "./main": `
+      #if DEBUG
+      import ./debug/log
+      #endif
+      fn main() { }
+    `,
+  });
+  const registry = new ModuleRegistry({ loader });
+  await registry.linkAsync("./main");
+  expect(loader.requested).toEqual(["./main"]);
+});
@@ -0,0 +1,131 @@
+import { expect, test } from "vitest";
+import { ModuleRegistry } from "../ModuleRegistry.js";
+import { simpleTemplate } from "../templates/SimpleTemplate.js";
+
+test("reuse parsed modules for unrelated params", () => {
+  const main = `
+    import ./util/foo
+    fn main() { foo(); }
+  `;
+  const util = `
+    #if FAST
+    export fn foo() { /* fast */ }
+    #else
+    export fn foo() { /* slow */ }
+    #endif
+  `;
+  const wgsl = { "./main.wgsl": main, "./util.wgsl": util };
+  const registry = new ModuleRegistry({ wgsl });
+  const first = registry.parsed({ FAST: true, other: 1 });
+  const second = registry.parsed({ FAST: true, other: 2 });
+  const third = registry.parsed({ FAST: false });
+
+  const util1 = first.findTextModule("./util");
+  expect(util1?.paramNames).toEqual(["FAST"]);
+  expect(second.findTextModule("./util")).toBe(util1);
+  expect(third.findTextModule("./util")).not.toBe(util1);
+  expect(third.findTextModule("./main")).toBe(first.findTextModule("./main"));
+
+  expect(registry.link("./main", { FAST: true })).includes("/* fast */");
+  expect(registry.link("./main", { FAST: false })).includes("/* slow */");
+});
+
+test("updateModule", () => {
+  const main = `
+    import ./util/foo
+    fn main() { foo(); }
+  `;
+  const util = `export fn foo() { /* v1 */ }`;
+  const wgsl = { "./main.wgsl": main, "./util.wgsl": util };
+  const registry = new ModuleRegistry({ wgsl });
+  expect(registry.link("./main")).includes("/* v1 */");
+
+  const main1 = registry.parsed().findTextModule("./main");
+  registry.updateModule("./util.wgsl", `export fn foo() { /* v2 */ }`);
+  const linked = registry.link("./main");
+  expect(linked).includes("/* v2 */");
+  expect(linked).not.includes("/* v1 */");
+  expect(registry.parsed().findTextModule("./main")).toBe(main1);
+});
+
+test("removeModule", () => {
+  const main = `
+    import ./util/foo
+    fn main() { foo(); }
+  `;
+  const util = `export fn foo() { }`;
+  const wgsl = { "./main.wgsl": main, "./util.wgsl": util };
+  const registry = new ModuleRegistry({ wgsl });
+  expect(registry.link("./main")).includes("fn foo()");
+
+  registry.removeModule("./util.wgsl");
+  const { dest, diagnostics } = registry.linkWithSourceMap("./main");
+  expect(dest).not.includes("fn foo()");
+  expect(diagnostics.length).toBeGreaterThan(0);
+
+  // problems are reported again by later links
+  const again = registry.linkWithSourceMap("./main");
+  expect(again.diagnostics).toEqual(diagnostics);
+});
+
+test("templated modules depend on all params", () => {
+  const src = `
+    #template simple
+    fn main() { let x = SIZE; }
+  `;
+  const wgsl = { "./main.wgsl": src };
+  const registry = new ModuleRegistry({ wgsl, templates: [simpleTemplate] });
+  const main1 = registry.parsed({ SIZE: 1 }).findTextModule("./main");
+  expect(main1?.paramNames).toBeUndefined();
+  expect(registry.parsed({ SIZE: 1 }).findTextModule("./main")).toBe(main1);
+
+  expect(registry.link("./main", { SIZE: 1 })).includes("let x = 1;");
+  expect(registry.link("./main", { SIZE: 2 })).includes("let x = 2;");
+});
+
+test("reuse link results for unrelated params", () => {
+  const main = `
+    import ./util/foo
+    fn main() { foo(); }
+  `;
+  const util = `
+    #if FAST
+    export fn foo() { /* fast */ }
+    #else
+    export fn foo() { /* slow */ }
+    #endif
+  `;
+  const other = `
+    #if OTHER
+    fn other() { }
+    #endif
+  `;
+  const wgsl = {
+    "./main.wgsl": main,
+    "./util.wgsl": util,
+    "./other.wgsl": other,
+  };
+  const registry = new ModuleRegistry({ wgsl });
+  expect(registry.linkConditions("./main")).toEqual(["FAST"]);
+
+  const linked = registry.link("./main", { FAST: true, OTHER: true });
+  expect(registry.link("./main", { FAST: true, OTHER: false })).toBe(linked);
+  expect(registry.link("./main", { FAST: false })).includes("/* slow */");
+
+  registry.updateModule("./util.wgsl", `export fn foo() { /* new */ }`);
+  expect(registry.link("./main", { FAST: true })).includes("/* new */");
+  expect(registry.linkConditions("./main")).toEqual([]);
+});
+
+test("bounded link cache", () => {
+  const src = `
+    #if SIZE == 1
+    fn main() { }
+    #endif
+  `;
+  const wgsl = { "./main.wgsl": src };
+  const registry = new ModuleRegistry({ wgsl, linkCacheSize: 2 });
+  [1, 2, 3].forEach((SIZE) => registry.link("./main", { SIZE }));
+  expect(registry.linkCache.get("./main", { SIZE: 1 })).toBeUndefined();
+  expect(registry.linkCache.get("./main", { SIZE: 3 })?.result).eq("");
+});
@@ -53,10 +53,26 @@ test("parse struct", () => {
         "kind": "struct",
         "members": [
           {
+            "attributes": [],
             "end": 19,
             "kind": "member",
             "name": "a",
             "start": 13,
+            "type": {
+              "end": 19,
+              "kind": "typeSpec",
+              "start": 16,
+              "text": "f32",
+              "typeRefs": [
+                {
+                  "end": 19,
+                  "kind": "typeRef",
+                  "name": "f32",
+                  "start": 16,
+                },
+              ],
+              "varRefs": [],
+            },
             "typeRefs": [
               {
                 "end": 19,
@@ -65,12 +81,29 @@ test("parse struct", () => {
                 "start": 16,
               },
             ],
+            "varRefs": [],
           },
           {
+            "attributes": [],
             "end": 27,
             "kind": "member",
             "name": "b",
             "start": 21,
+            "type": {
+              "end": 27,
+              "kind": "typeSpec",
+              "start": 24,
+              "text": "i32",
+              "typeRefs": [
+                {
+                  "end": 27,
+                  "kind": "typeRef",
+                  "name": "i32",
+                  "start": 24,
+                },
+              ],
+              "varRefs": [],
+            },
             "typeRefs": [
               {
                 "end": 27,
@@ -79,6 +112,7 @@ test("parse struct", () => {
                 "start": 24,
               },
             ],
+            "varRefs": [],
           },
         ],
         "name": "Foo",
@@ -349,3 +383,96 @@ test("parse var x: foo.bar;", () => {
   const varRef = parsed.find((e) => e.kind === "var");
   expect(varRef?.typeRefs[0].name).eq("foo.bar");
 });
+
+test("parse control flow statements", () => {
+  const src = `
+    fn main() {
+      if a < b { foo(); } else if (c) { bar(); } else { baz(); }
+      switch x { case 1, 2: { a(); } default { b(); } }
+      loop {
+        c();
+        continuing { d(); break if x > 3; }
+      }
+      for (var i = 0; i < 4; i++) { e(); }
+      while i >= 0 { i -= f(); }
+      return;
+    }
+  `;
+  expectNoLogErr(() => {
+    const parsed = testParseWgsl(src);
+    const { calls } = filterElems<FnElem>(parsed, "fn")[0];
+    const names = calls.map((c) => c.name);
+    expect(names).deep.eq(["foo", "bar", "baz", "a", "b", "c", "d", "e", "f"]);
+  });
+});
+
+test("parse expressions", () => {
+  const src = `
+    fn main() {
+      let x = -a.b[2] * (1e-3 + 0x1p4f) / 1.5h;
+      var y: vec2<f32> = vec2(u.x >> 2u, *p);
+      _ = &y;
+      y.x += x;
+    }
+  `;
+  expectNoLogErr(() => {
+    const parsed = testParseWgsl(src);
+    const { calls } = filterElems<FnElem>(parsed, "fn")[0];
+    expect(calls.map((c) => c.name)).deep.eq(["vec2"]);
+  });
+});
+
+test("parse template in expression", () => {
+  const src = `
+    fn main() {
+      let a = array<MyStruct, 2>(b(), b());
+      if c < d && e > (f) { }
+    }
+  `;
+  expectNoLogErr(() => {
+    const parsed = testParseWgsl(src);
+    const { calls, typeRefs } = filterElems<FnElem>(parsed, "fn")[0];
+    expect(calls.map((c) => c.name)).deep.eq(["array", "b", "b"]);
+    expect(typeRefs.map((t) => t.name)).deep.eq(["MyStruct"]);
+  });
+});
+
+test("parse template with enumerants and count", () => {
+  const src = `ptr<storage, array<Foo, N * 2>, read_write>`;
+
+  const { parsed } = testAppParse(typeSpecifier, src);
+  const typeRefNames = parsed?.value.map((r) => r.name);
+  expect(typeRefNames).deep.eq(["ptr", "array", "Foo"]);
+});
+
+test("parse call in attribute", () => {
+  const src = `
+    @compute @workgroup_size(threads(), 1, 1)
+    fn main() { }
+  `;
+  expectNoLogErr(() => {
+    const parsed = testParseWgsl(src);
+    const { calls } = filterElems<FnElem>(parsed, "fn")[0];
+    expect(calls.map((c) => c.name)).deep.eq(["threads"]);
+  });
+});
+
+test("local declarations hide global references", () => {
+  const src = `
+    fn main(Bar: i32) {
+      foo();
+      {
+        let foo = 1;
+        foo();
+        let b: Bar = 2;
+      }
+      for (var foo = 0; foo < 2; foo++) { foo(); }
+      foo();
+    }
+  `;
+  const parsed = testParseWgsl(src);
+  const { calls, typeRefs } = filterElems<FnElem>(parsed, "fn")[0];
+  const callPositions = calls.map((c) => src.slice(c.start, c.end + 2));
+  expect(callPositions).deep.eq(["foo()", "foo()"]);
+  expect(typeRefs.map((t) => t.name)).deep.eq(["i32"]);
+});
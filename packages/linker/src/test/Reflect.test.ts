@@ -0,0 +1,194 @@
+import { expect, test } from "vitest";
+import { ModuleRegistry } from "../ModuleRegistry.js";
+import { Reflection } from "../Reflect.js";
+
+function reflectTest(main: string, ...modules: string[]): Reflection {
+  const wgsl: Record<string, string> = { "./main.wgsl": main };
+  modules.forEach((src, i) => (wgsl[`./file${i + 1}.wgsl`] = src));
+  const registry = new ModuleRegistry({ wgsl });
+  return registry.reflect("./main");
+}
+
+test("reflect entry points", () => {
+  const src = `
+    struct VertexOut {
+      @builtin(position) pos: vec4f,
+      @location(0) uv: vec2f,
+    }
+
+    @vertex
+    fn vertexMain(@location(0) pos: vec3f, @builtin(vertex_index) i: u32) -> VertexOut {
+      var out: VertexOut;
+      return out;
+    }
+
+    @fragment
+    fn fragmentMain(in: VertexOut) -> @location(0) vec4f {
+      return vec4f(1.0);
+    }
+
+    @compute @workgroup_size(64, 1)
+    fn computeMain() { }
+
+    fn helper() { }
+  `;
+  const { entryPoints } = reflectTest(src);
+  expect(entryPoints.map((e) => [e.name, e.stage])).toEqual([
+    ["vertexMain", "vertex"],
+    ["fragmentMain", "fragment"],
+    ["computeMain", "compute"],
+  ]);
+  const [vertex, fragment, compute] = entryPoints;
+  expect(vertex.inputs).toEqual([
+    { name: "pos", type: "vec3f", location: 0 },
+    { name: "i", type: "u32", builtin: "vertex_index" },
+  ]);
+  expect(vertex.output).toEqual({ type: "VertexOut" });
+  expect(fragment.output).toEqual({ type: "vec4f", location: 0 });
+  expect(compute.workgroupSize).toEqual(["64", "1"]);
+});
+
+test("reflect resource bindings", () => {
+  const src = `
+    import ./file1/particles
+    struct Params { scale: f32 }
+    @group(0) @binding(0) var<uniform> params: Params;
+    @group(0) @binding(1) var tex: texture_2d<f32>;
+    @group(0) @binding(2) var samp: sampler;
+    @group(1) @binding(0) var storeTex: texture_storage_2d<rgba8unorm, write>;
+    var<private> counter: u32;
+    fn main() { let p = particles[0]; }
+  `;
+  const file1 = `
+    export @group(1) @binding(1) var<storage, read_write> particles: array<vec4f>;
+  `;
+  const { bindings } = reflectTest(src, file1);
+  const summary = bindings.map((b) => [b.name, b.group, b.binding, b.resource]);
+  expect(summary).toEqual([
+    ["params", 0, 0, "uniform"],
+    ["tex", 0, 1, "texture"],
+    ["samp", 0, 2, "sampler"],
+    ["storeTex", 1, 0, "storageTexture"],
+    ["particles", 1, 1, "storage"],
+  ]);
+  const particles = bindings[4];
+  expect(particles.type).eq("array<vec4f>");
+  expect(particles.accessMode).eq("read_write");
+  expect(particles.modulePath).eq("_root/file1.wgsl");
+});
+
+test("reflect struct layouts", () => {
+  const src = `
+    struct Light {
+      position: vec3f,
+      intensity: f32,
+      color: vec3f,
+      @align(16) range: f32,
+      transform: mat3x3f,
+      flags: array<u32, 3>,
+    }
+    @group(0) @binding(0) var<storage> light: Light;
+  `;
+  const { structs } = reflectTest(src);
+  expect(structs.length).eq(1);
+  const [light] = structs;
+  const offsets = light.members.map((m) => [m.name, m.offset, m.size]);
+  expect(offsets).toEqual([
+    ["position", 0, 12],
+    ["intensity", 12, 4],
+    ["color", 16, 12],
+    ["range", 32, 4],
+    ["transform", 48, 48],
+    ["flags", 96, 12],
+  ]);
+  expect(light.align).eq(16);
+  expect(light.size).eq(112);
+});
+
+test("reflect uniform struct layouts", () => {
+  const src = `
+    struct Inner { a: f32 }
+    struct Params {
+      weights: array<f32, 3>,
+      inner: Inner,
+      scale: f32,
+    }
+    @group(0) @binding(0) var<uniform> params: Params;
+  `;
+  const { structs } = reflectTest(src);
+  const params = structs.find((s) => s.name === "Params");
+  expect(params?.addressSpace).eq("uniform");
+  const offsets = params?.members.map((m) => [m.name, m.offset, m.size]);
+  expect(offsets).toEqual([
+    ["weights", 0, 48],
+    ["inner", 48, 4],
+    ["scale", 64, 4],
+  ]);
+  const [weights] = params!.members;
+  expect(weights.hostType).toMatchObject({ kind: "array", stride: 16 });
+  expect(params?.size).eq(80);
+});
+
+test("reflect a struct used in uniform and storage buffers", () => {
+  const src = `
+    struct Samples { values: array<f32, 4> }
+    @group(0) @binding(0) var<uniform> u: Samples;
+    @group(0) @binding(1) var<storage> s: Samples;
+  `;
+  const { structs } = reflectTest(src);
+  const layouts = structs.map((s) => [s.name, s.addressSpace, s.size]);
+  expect(layouts).toEqual([
+    ["Samples", "storage", 16],
+    ["Samples", "uniform", 64],
+  ]);
+});
+
+test("reflect nested and runtime sized struct layouts", () => {
+  const src = `
+    const count = 4u;
+    struct Particle { pos: vec2f, vel: vec2<f32>, mass: f16 }
+    struct Block { header: array<Particle, count>, data: array<Particle> }
+    @group(0) @binding(0) var<storage> block: Block;
+  `;
+  const { structs } = reflectTest(src);
+  const particle = structs.find((s) => s.name === "Particle");
+  expect(particle?.size).eq(24);
+  expect(particle?.align).eq(8);
+
+  const block = structs.find((s) => s.name === "Block");
+  expect(block?.members.map((m) => [m.offset, m.size])).toEqual([
+    [0, 96],
+    [96, undefined],
+  ]);
+  expect(block?.size).toBeUndefined();
+});
+
+test("reflect renamed imported struct", () => {
+  const src = `
+    import ./file1/foo
+    struct Uniforms { a: f32 }
+    @group(0) @binding(0) var<uniform> u: Uniforms;
+    fn main() { foo(); }
+  `;
+  const file1 = `
+    struct Uniforms { a: vec4f, b: f32 }
+    @group(1) @binding(0) var<uniform> u: Uniforms;
+    export fn foo() { let x = u.b; }
+  `;
+  const { bindings, structs } = reflectTest(src, file1);
+  expect(bindings.map((b) => [b.name, b.type])).toEqual([
+    ["u", "Uniforms"],
+    ["u0", "Uniforms0"],
+  ]);
+  const renamed = structs.find((s) => s.name === "Uniforms0");
+  expect(renamed?.size).eq(32);
+});
+
+test("struct with bool member has no layout", () => {
+  const src = `
+    struct Local { on: bool, value: f32 }
+    fn main() { var l: Local; }
+  `;
+  const { structs } = reflectTest(src);
+  expect(structs).toEqual([]);
+});
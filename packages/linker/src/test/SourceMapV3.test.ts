@@ -0,0 +1,101 @@
+import { expect, test } from "vitest";
+import { ModuleRegistry } from "../ModuleRegistry.js";
+import {
+  sourceMappingURLComment,
+  sourceMapV3,
+  vlqEncode,
+} from "../SourceMapV3.js";
+
+test("vlqEncode", () => {
+  const encoded = [0, 1, -1, 15, 16, -16, 1000].map(vlqEncode);
+  expect(encoded).deep.eq(["A", "C", "D", "e", "gB", "hB", "w+B"]);
+});
+
+test("source map for two modules", () => {
+  const src = `
+    import ./file1/foo
+    fn main() {
+      foo();
+    }
+  `;
+  const file1 = `
+    export fn foo() {
+      let y = 1;
+    }
+  `;
+  const registry = new ModuleRegistry({
+    wgsl: { "./main.wgsl": src, "./file1.wgsl": file1 },
+  });
+  const result = registry.linkWithSourceMap("./main");
+  const sourceMap = sourceMapV3(result, "main.wgsl");
+
+  expect(sourceMap.version).eq(3);
+  expect(sourceMap.file).eq("main.wgsl");
+  expect(sourceMap.sources).deep.eq(["_root/main.wgsl", "_root/file1.wgsl"]);
+  expect(sourceMap.sourcesContent).deep.eq([src, file1]);
+
+  // every mapped segment should point at matching text in the source
+  const destLines = result.dest.split("\n");
+  const segments = decodeMappings(sourceMap.mappings);
+  expect(segments.length).toBeGreaterThan(0);
+  segments.forEach(({ line, column, srcIndex, srcLine, srcColumn }) => {
+    const srcLines = sourceMap.sourcesContent[srcIndex].split("\n");
+    const destText = destLines[line].slice(column, column + 3);
+    const srcText = srcLines[srcLine].slice(srcColumn, srcColumn + 3);
+    expect(destText).eq(srcText);
+  });
+
+  const fooLine = destLines.findIndex((l) => l.includes("let y"));
+  const fooSegment = segments.find((s) => s.line === fooLine);
+  expect(fooSegment?.srcIndex).eq(1);
+  expect(fooSegment?.srcLine).eq(2);
+});
+
+test("sourceMappingURL comment", () => {
+  const comment = sourceMappingURLComment("main.wgsl.map");
+  expect(comment).eq("//# sourceMappingURL=main.wgsl.map");
+});
+
+interface DecodedSegment {
+  line: number;
+  column: number;
+  srcIndex: number;
+  srcLine: number;
+  srcColumn: number;
+}
+
+/** decode the mapped (4 field) segments in a v3 mappings string */
+function decodeMappings(mappings: string): DecodedSegment[] {
+  const base64 =
+    "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+  const results: DecodedSegment[] = [];
+  const prev = [0, 0, 0, 0];
+
+  mappings.split(";").forEach((lineText, line) => {
+    prev[0] = 0;
+    lineText
+      .split(",")
+      .filter((s) => s)
+      .forEach((segment) => {
+        const fields: number[] = [];
+        let value = 0;
+        let shift = 0;
+        for (const c of segment) {
+          const digit = base64.indexOf(c);
+          value += (digit & 0x1f) << shift;
+          shift += 5;
+          if (!(digit & 0x20)) {
+            fields.push(value & 1 ? -(value >> 1) : value >> 1);
+            value = 0;
+            shift = 0;
+          }
+        }
+        fields.forEach((f, i) => (prev[i] += f));
+        if (fields.length === 4) {
+          const [column, srcIndex, srcLine, srcColumn] = prev;
+          results.push({ line, column, srcIndex, srcLine, srcColumn });
+        }
+      });
+  });
+  return results;
+}
@@ -0,0 +1,123 @@
+import { expect, test } from "vitest";
+import { ModuleRegistry } from "../ModuleRegistry.js";
+import { structTypes } from "../StructTypes.js";
+
+function generate(src: string, format: "ts" | "js" | "dts" = "ts"): string {
+  const registry = new ModuleRegistry({ wgsl: { "./main.wgsl": src } });
+  const { structs } = registry.reflect("./main");
+  return structTypes(structs, format);
+}
+
+/** load generated javascript as a module */
+async function loadJs(src: string): Promise<Record<string, any>> {
+  const js = generate(src, "js");
+  const url = "data:text/javascript;base64," + btoa(js);
+  return import(/* @vite-ignore */ url);
+}
+
+test("interface for struct members", () => {
+  const src = `
+    struct Particle {
+      pos: vec3f,
+      mass: f32,
+      transform: mat2x2f,
+      neighbors: array<u32, 4>,
+    }
+    @group(0) @binding(0) var<storage> p: Particle;
+  `;
+  const ts = generate(src);
+  expect(ts).includes(`export interface Particle {
+  pos: [number, number, number];
+  mass: number;
+  transform: number[];
+  neighbors: number[];
+}`);
+  expect(ts).includes("export const ParticleSize = 48;");
+  expect(ts).includes("export function packParticle(");
+  expect(ts).includes("export function unpackParticle(");
+});
+
+test("declarations for js output", () => {
+  const src = `
+    struct Params { scale: f32 }
+    @group(0) @binding(0) var<uniform> params: Params;
+  `;
+  const dts = generate(src, "dts");
+  expect(dts).includes("export declare const ParamsSize: number;");
+  expect(dts).includes("): ArrayBuffer;");
+  expect(dts).not.includes("view.");
+});
+
+test("pack and unpack with host shareable layout", async () => {
+  const src = `
+    struct Inner { a: vec2f, b: i32 }
+    struct Uniforms {
+      color: vec3f,
+      inner: Inner,
+      weights: array<f32, 2>,
+      rotation: mat3x3f,
+    }
+    @group(0) @binding(0) var<storage> u: Uniforms;
+  `;
+  const { packUniforms, unpackUniforms, UniformsSize } = await loadJs(src);
+  const value = {
+    color: [1, 2, 3],
+    inner: { a: [4, 5], b: -6 },
+    weights: [0.5, 0.25],
+    rotation: [1, 2, 3, 4, 5, 6, 7, 8, 9],
+  };
+  const buffer: ArrayBuffer = packUniforms(value);
+  expect(buffer.byteLength).eq(UniformsSize);
+
+  const floats = new Float32Array(buffer);
+  expect([...floats.slice(0, 3)]).toEqual([1, 2, 3]);
+  expect([...floats.slice(4, 6)]).toEqual([4, 5]); // inner at offset 16
+  expect(new Int32Array(buffer)[6]).eq(-6);
+  expect([...floats.slice(8, 10)]).toEqual([0.5, 0.25]);
+  expect([...floats.slice(12, 15)]).toEqual([1, 2, 3]); // mat columns padded
+  expect([...floats.slice(16, 19)]).toEqual([4, 5, 6]);
+
+  expect(unpackUniforms(buffer)).toEqual(value);
+});
+
+test("pack and unpack runtime sized array", async () => {
+  const src = `
+    struct Data { count: u32, values: array<vec2h> }
+    @group(0) @binding(0) var<storage> data: Data;
+  `;
+  const { packData, unpackData } = await loadJs(src);
+  const value = {
+    count: 2,
+    values: [
+      [1, -2],
+      [0.5, 1024],
+    ],
+  };
+  const buffer: ArrayBuffer = packData(value);
+  expect(buffer.byteLength).eq(12);
+  expect(unpackData(buffer)).toEqual(value);
+});
+
+test("pack and unpack with uniform and storage layouts", async () => {
+  const src = `
+    struct Inner { a: f32 }
+    struct Params { weights: array<f32, 2>, inner: Inner, scale: f32 }
+    @group(0) @binding(0) var<uniform> u: Params;
+    @group(0) @binding(1) var<storage> s: Params;
+  `;
+  const js = await loadJs(src);
+  const value = { weights: [0.5, 0.25], inner: { a: 2 }, scale: 3 };
+
+  const uniform: ArrayBuffer = js.packParamsUniform(value);
+  expect(uniform.byteLength).eq(js.ParamsUniformSize);
+  const uniformFloats = new Float32Array(uniform);
+  expect(uniformFloats[0]).eq(0.5);
+  expect(uniformFloats[4]).eq(0.25); // array stride 16
+  expect(uniformFloats[8]).eq(2); // nested struct at offset 32
+  expect(uniformFloats[12]).eq(3); // after the nested struct, 16 byte aligned
+  expect(js.unpackParamsUniform(uniform)).toEqual(value);
+
+  const storage: ArrayBuffer = js.packParams(value);
+  expect([...new Float32Array(storage)]).toEqual([0.5, 0.25, 2, 3]);
+  expect(js.unpackParams(storage)).toEqual(value);
+});
@@ -210,7 +210,7 @@ test("mismatched import export params", () => {
     "mismatched import and export params  module: _root/main.wgsl
         #import foo(A, B) from ./file1   Ln 2
         ^
-     module: _root/file1.wgsl
+    export params don't match the import in _root/main.wgsl  module: _root/file1.wgsl
         #export(C)    Ln 2
         ^"
   `);
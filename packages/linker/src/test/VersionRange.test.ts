@@ -0,0 +1,41 @@
+import { expect, test } from "vitest";
+import { versionInRange } from "../VersionRange.js";
+
+test("caret and tilde ranges", () => {
+  expect(versionInRange("1.4.2", "^1.2.0")).toBe(true);
+  expect(versionInRange("2.0.0", "^1.2.0")).toBe(false);
+  expect(versionInRange("1.1.9", "^1.2.0")).toBe(false);
+  expect(versionInRange("0.2.5", "^0.2.1")).toBe(true);
+  expect(versionInRange("0.3.0", "^0.2.1")).toBe(false);
+  expect(versionInRange("0.0.4", "^0.0.3")).toBe(false);
+  expect(versionInRange("1.2.9", "~1.2.3")).toBe(true);
+  expect(versionInRange("1.3.0", "~1.2.3")).toBe(false);
+  expect(versionInRange("1.9.0", "~1")).toBe(true);
+});
+
+test("exact, x and comparator ranges", () => {
+  expect(versionInRange("1.0.0", "1.0.0")).toBe(true);
+  expect(versionInRange("1.0.1", "1.0.0")).toBe(false);
+  expect(versionInRange("1.7.0", "1.x")).toBe(true);
+  expect(versionInRange("2.0.0", "1.x")).toBe(false);
+  expect(versionInRange("3.1.0", "*")).toBe(true);
+  expect(versionInRange("1.5.0", ">=1.0.0 <2.0.0")).toBe(true);
+  expect(versionInRange("2.0.0", ">= 1.0.0 < 2.0.0")).toBe(false);
+  expect(versionInRange("1.4.7", "<=1.4")).toBe(true);
+  expect(versionInRange("1.5.0", ">1.4")).toBe(true);
+  expect(versionInRange("1.4.7", ">1.4")).toBe(false);
+});
+
+test("hyphen and alternative ranges", () => {
+  expect(versionInRange("1.4.9", "1.0.0 - 1.4")).toBe(true);
+  expect(versionInRange("1.5.0", "1.0.0 - 1.4")).toBe(false);
+  expect(versionInRange("2.3.0", "^1.0.0 || ^2.0.0")).toBe(true);
+  expect(versionInRange("3.0.0", "^1.0.0 || ^2.0.0")).toBe(false);
+});
+
+test("ranges that aren't version ranges match", () => {
+  expect(versionInRange("1.0.0", "latest")).toBe(true);
+  expect(versionInRange("1.0.0", "file:../hash")).toBe(true);
+  expect(versionInRange("1.0.0", "workspace:*")).toBe(true);
+  expect(versionInRange("1.0.0", "workspace:^2.0.0")).toBe(false);
+});
@@ -11,7 +11,32 @@ export function srcLog(
   pos: number | [number, number],
   ...msgs: any[]
 ): void {
-  logInternal(logger, src, pos, ...msgs);
+  if (srcLogger) {
+    srcLogger(src, pos, ...msgs);
+  } else {
+    logInternal(logger, src, pos, ...msgs);
+  }
+}
+
+/** a replacement for srcLog, e.g. to collect messages rather than print them */
+export type SrcLogFn = (
+  src: string | SrcMap,
+  pos: number | [number, number],
+  ...msgs: any[]
+) => void;
+
+let srcLogger: SrcLogFn | undefined;
+
+/** run a function, sending any srcLog messages to the provided function
+ * (or to the console, if logFn is undefined) */
+export function withSrcLogger<T>(logFn: SrcLogFn | undefined, fn: () => T): T {
+  const orig = srcLogger;
+  try {
+    srcLogger = logFn;
+    return fn();
+  } finally {
+    srcLogger = orig;
+  }
 }
 
 /** log a message along with src line, but only if tracing is active in the current parser */
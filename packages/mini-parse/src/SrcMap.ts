@@ -6,11 +6,17 @@ export interface SrcMapEntry {
   srcEnd: number;
   destStart: number;
   destEnd: number;
+
+  /** name of the src text, e.g. a module path (optional) */
+  srcPath?: string;
 }
 
 export interface SrcPosition {
   src: string;
   position: number;
+
+  /** name of the src text, if the entry was named */
+  srcPath?: string;
 }
 
 /** map text ranges in multiple src texts to a single dest text */
@@ -46,6 +52,7 @@ export class SrcMap {
       const e = this.entries[i];
       if (
         e.src === prev.src &&
+        e.srcPath === prev.srcPath &&
         prev.destEnd === e.destStart &&
         prev.srcEnd === e.srcStart
       ) {
@@ -80,20 +87,7 @@ export class SrcMap {
       return other;
     }
     sortSrc(mappedEntries);
-    const newEntries = mappedEntries.map((e) => {
-      const { src, position: srcStart } = this.destToSrc(e.srcStart);
-      const { src: endSrc, position: srcEnd } = this.destToSrc(e.srcEnd);
-      if (endSrc !== src) throw new Error("NYI, need to split");
-      const newEntry: SrcMapEntry = {
-        src,
-        srcStart,
-        srcEnd,
-        destStart: e.destStart,
-        destEnd: e.destEnd,
-      };
-      // dlog({ newEntry });
-      return newEntry;
-    });
+    const newEntries = mappedEntries.flatMap((e) => this.mapEntry(e));
 
     const otherSources = other.entries.filter((e) => e.src !== this.dest);
 
@@ -102,6 +96,34 @@ export class SrcMap {
     return newMap;
   }
 
+  /** @return entries mapping the other entry's range through this SrcMap,
+   * split into pieces if a copied range spans several entries in this map */
+  private mapEntry(e: SrcMapEntry): SrcMapEntry[] {
+    if (isCopy(e)) {
+      const overlaps = this.entries.filter(
+        (t) => t.destStart < e.srcEnd && t.destEnd > e.srcStart
+      );
+      if (overlaps.length) {
+        overlaps.sort((a, b) => a.destStart - b.destStart);
+        return overlaps.map((t) => splitEntry(e, t));
+      }
+    }
+
+    const { src, srcPath, position: srcStart } = this.destToSrc(e.srcStart);
+    const { src: endSrc, position: srcEnd } = this.destToSrc(e.srcEnd);
+    if (endSrc !== src) throw new Error("NYI, need to split");
+    const newEntry: SrcMapEntry = {
+      src,
+      srcStart,
+      srcEnd,
+      destStart: e.destStart,
+      destEnd: e.destEnd,
+    };
+    if (srcPath !== undefined) newEntry.srcPath = srcPath;
+    // dlog({ newEntry });
+    return [newEntry];
+  }
+
   /**
    * @param entries should be sorted in destStart order
    * @return the source position corresponding to a provided destination position
@@ -118,11 +140,44 @@ export class SrcMap {
         position: destPos,
       };
     }
-    return {
-      src: entry.src,
-      position: entry.srcStart + destPos - entry.destStart,
-    };
+    const position = entry.srcStart + destPos - entry.destStart;
+    const { src, srcPath } = entry;
+    return srcPath !== undefined
+      ? { src, position, srcPath }
+      : { src, position };
+  }
+}
+
+/** @return true if the entry maps a range of text copied unchanged from the src */
+function isCopy(e: SrcMapEntry): boolean {
+  return e.srcEnd - e.srcStart === e.destEnd - e.destStart;
+}
+
+/**
+ * @param e a copied entry whose src range overlaps the dest range of entry t
+ * @return the portion of e that overlaps t, mapped to t's src
+ */
+function splitEntry(e: SrcMapEntry, t: SrcMapEntry): SrcMapEntry {
+  const start = Math.max(t.destStart, e.srcStart);
+  const end = Math.min(t.destEnd, e.srcEnd);
+  const destStart = e.destStart + start - e.srcStart;
+  const destEnd = e.destStart + end - e.srcStart;
+
+  let srcStart = t.srcStart;
+  let srcEnd = t.srcEnd;
+  if (isCopy(t)) {
+    srcStart = t.srcStart + start - t.destStart;
+    srcEnd = srcStart + end - start;
   }
+  const newEntry: SrcMapEntry = {
+    src: t.src,
+    srcStart,
+    srcEnd,
+    destStart,
+    destEnd,
+  };
+  if (t.srcPath !== undefined) newEntry.srcPath = t.srcPath;
+  return newEntry;
 }
 
 /** sort entries in place by src start position */
@@ -1,5 +1,5 @@
 import { expect, test } from "vitest";
-import { srcLine, srcLog } from "../ParserLogging.js";
+import { srcLine, srcLog, withSrcLogger } from "../ParserLogging.js";
 import { _withBaseLogger } from "../ParserTracing.js";
 import { logCatch } from "../test-util/LogCatcher.js";
 
@@ -70,3 +70,17 @@ test("srcLog with two carets", () => {
     ^    ^"
   `);
 });
+
+test("withSrcLogger", () => {
+  const src = `a\n12345\nb`;
+  const found: any[][] = [];
+  const { log, logged } = logCatch();
+  _withBaseLogger(log, () => {
+    withSrcLogger(
+      (_src, pos, ...msgs) => found.push([pos, ...msgs]),
+      () => srcLog(src, 5, "uh-oh:", 1)
+    );
+  });
+  expect(found).deep.eq([[5, "uh-oh:", 1]]);
+  expect(logged()).eq("");
+});
@@ -69,4 +69,24 @@ test("merge", () => {
     ]
   `); 
 
-})
\ No newline at end of file
+})
+test("merge splits a copied range spanning several entries", () => {
+  const src = "a #x bc";
+  const mid = "a bc"; // "#x " removed from src
+  const dest = "> a bc";
+
+  const map1 = new SrcMap(mid, [
+    { src, srcPath: "s", srcStart: 0, srcEnd: 2, destStart: 0, destEnd: 2 },
+    { src, srcPath: "s", srcStart: 5, srcEnd: 7, destStart: 2, destEnd: 4 },
+  ]);
+  const map2 = new SrcMap(dest, [
+    { src: mid, srcStart: 0, srcEnd: 4, destStart: 2, destEnd: 6 },
+  ]);
+
+  const merged = map1.merge(map2);
+  const positions = merged.mapPositions(2, 5);
+  expect(positions).toEqual([
+    { src, srcPath: "s", position: 0 },
+    { src, srcPath: "s", position: 6 },
+  ]);
+});
@@ -12,6 +12,25 @@ build({
   entryPoints: ["src/main.ts"],
 });
 
+// bundler plugins, imported from wgsl-packager/plugin, /esbuild and /webpack
+
+build({
+  bundle: true,
+  platform: "node",
+  format: "esm",
+  outdir: "dist",
+  outExtension: { ".js": ".mjs" },
+  entryPoints: ["src/wgslPlugin.ts", "src/esbuildPlugin.ts"],
+});
+
+build({
+  bundle: true,
+  platform: "node",
+  format: "cjs",
+  outfile: "dist/webpackLoader.cjs",
+  entryPoints: ["src/webpackLoader.ts"],
+});
+
 /** Package resources as strings via ?raw */
 function raw(): Plugin {
   return {
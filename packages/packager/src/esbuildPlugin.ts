@@ -0,0 +1,67 @@
+import type { PartialMessage, Plugin } from "esbuild";
+import path from "node:path";
+import {
+  BuildMessage,
+  buildMessages,
+  moduleName,
+  wgslBuild,
+  WgslLoaderOptions,
+  wgslModuleJs,
+} from "./wgslBuild.js";
+
+/**
+ * An esbuild plugin for importing wgsl/wesl files.
+ *
+ * `import shader from "./main.wesl?link"` imports the linked wgsl text.
+ * `import input from "./main.wesl?registry"` imports the wgsl sources and package bundles
+ * to link main.wesl at runtime, e.g. `new ModuleRegistry(input).link("./main")`.
+ *
+ * Problems found while linking are reported as build errors.
+ */
+export function wgslEsbuildPlugin(options: WgslLoaderOptions = {}): Plugin {
+  const { defines } = options;
+  return {
+    name: "wgsl-linker",
+    setup(build) {
+      const cwd = build.initialOptions.absWorkingDir ?? process.cwd();
+      const rootDir = path.resolve(cwd, options.rootDir ?? ".");
+
+      build.onResolve({ filter: /\.w[eg]sl\?(link|registry)$/ }, (args) => {
+        const [filePath, query] = args.path.split("?");
+        return {
+          path: path.resolve(args.resolveDir, filePath),
+          namespace: "wgsl",
+          pluginData: { link: query === "link" },
+        };
+      });
+
+      build.onLoad({ filter: /.*/, namespace: "wgsl" }, async (args) => {
+        const entry = moduleName(args.path, rootDir);
+        if (!entry) {
+          const text = `wgsl file ${args.path} is outside of the root dir: ${rootDir}`;
+          return { errors: [{ text }] };
+        }
+
+        const built = await wgslBuild({ rootDir, entries: [entry], defines });
+        const { errors, warnings } = buildMessages(built, rootDir);
+        const watchFiles = built.files;
+        if (errors.length) {
+          return { errors: errors.map(esbuildMessage), watchFiles };
+        }
+        return {
+          contents: wgslModuleJs(built, entry, args.pluginData.link),
+          loader: "js",
+          warnings: warnings.map(esbuildMessage),
+          resolveDir: path.dirname(args.path),
+          watchFiles,
+        };
+      });
+    },
+  };
+}
+
+function esbuildMessage(message: BuildMessage): PartialMessage {
+  const { text, file, line, column } = message;
+  if (!file) return { text };
+  return { text, location: { file, line, column } };
+}
@@ -0,0 +1,76 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { ModuleLoader, noSuffix, normalize, WgslBundle } from "wgsl-linker";
+import { importBundle } from "../../linker/src/ImportBundle.js";
+
+/** a module loaded from a wgsl/wesl file */
+export interface LoadedFile {
+  /** file name relative to the root directory, e.g. ./util/math.wgsl */
+  fileName: string;
+
+  /** absolute path of the file */
+  filePath: string;
+
+  src: string;
+}
+
+const wgslSuffixes = [".wgsl", ".wesl"];
+
+/**
+ * Loads modules for a ModuleRegistry from the filesystem.
+ *
+ * Modules in the root package (e.g. ./util/math) are loaded from
+ * .wgsl or .wesl files relative to the root directory.
+ * Modules in other packages (e.g. rand/pcg) are loaded from the WgslBundle
+ * exported by the package in node_modules.
+ */
+export class FileLoader implements ModuleLoader {
+  /** loaded files, by module path (e.g. ./util/math) */
+  files = new Map<string, LoadedFile>();
+
+  /** bundles of the packages found, by package name */
+  bundles = new Map<string, Promise<WgslBundle | undefined>>();
+
+  constructor(readonly rootDir: string) {}
+
+  async load(modulePath: string): Promise<string | undefined> {
+    if (modulePath.startsWith("./")) return this.loadFile(modulePath);
+
+    const [packageName, ...rest] = modulePath.split("/");
+    const bundle = await this.loadBundle(packageName);
+    if (!bundle) return undefined;
+    const bundlePath = rest.length ? rest.join("/") : "lib";
+    const found = Object.entries(bundle.modules).find(
+      ([fileName]) => noSuffix(normalize(fileName)) === bundlePath
+    );
+    return found?.[1];
+  }
+
+  /** @return the bundles loaded from packages */
+  async loadedBundles(): Promise<WgslBundle[]> {
+    const bundles = await Promise.all(this.bundles.values());
+    return bundles.filter((b): b is WgslBundle => !!b);
+  }
+
+  private async loadFile(modulePath: string): Promise<string | undefined> {
+    for (const suffix of wgslSuffixes) {
+      const fileName = modulePath + suffix;
+      const filePath = path.resolve(this.rootDir, fileName);
+      const src = await fs.readFile(filePath, "utf8").catch(() => undefined);
+      if (src !== undefined) {
+        this.files.set(modulePath, { fileName, filePath, src });
+        return src;
+      }
+    }
+    return undefined;
+  }
+
+  private loadBundle(packageName: string): Promise<WgslBundle | undefined> {
+    let bundle = this.bundles.get(packageName);
+    if (!bundle) {
+      bundle = importBundle(packageName, this.rootDir);
+      this.bundles.set(packageName, bundle);
+    }
+    return bundle;
+  }
+}
@@ -0,0 +1,163 @@
+import { glob } from "glob";
+import fs from "node:fs/promises";
+import path from "node:path";
+
+/** a pattern from a .gitignore file */
+interface IgnoreRule {
+  /** directory containing the .gitignore file, relative to the top directory */
+  dir: string;
+
+  regex: RegExp;
+
+  /** true if the pattern contains a slash, and so matches paths relative to dir
+   * (other patterns match file or directory names at any depth) */
+  anchored: boolean;
+
+  /** true for patterns starting with !, which include a file again */
+  negated: boolean;
+
+  /** true for patterns ending with /, which match only directories */
+  dirOnly: boolean;
+}
+
+/**
+ * Match files against the .gitignore files that apply to a directory:
+ * the .gitignore files from the top of the git repository
+ * (or from the project directory, outside of a repository) down to the directory,
+ * and the .gitignore files in its subdirectories.
+ *
+ * As in git, later and deeper patterns take precedence,
+ * `!` patterns include a file again,
+ * and files in an ignored directory stay ignored.
+ *
+ * @param projectDir top directory if there's no enclosing git repository
+ * @return a function reporting whether a file (relative to rootDir,
+ *  e.g. noise/perlin.wesl) is ignored
+ */
+export async function gitignoreMatcher(
+  rootDir: string,
+  projectDir = rootDir
+): Promise<(file: string) => boolean> {
+  const top = await topDir(rootDir, projectDir);
+  const rootPath = posixPath(path.relative(top, rootDir));
+
+  const segments = rootPath ? rootPath.split("/") : [];
+  const parentDirs = segments.map((_, i) => segments.slice(0, i).join("/"));
+  const nestedFiles = await glob("**/.gitignore", {
+    cwd: rootDir,
+    ignore: ["**/node_modules/**"],
+    dot: true,
+    posix: true,
+  });
+  const nestedDirs = nestedFiles.map((f) =>
+    joinPath(rootPath, path.posix.dirname(f))
+  );
+  const dirs = [...new Set([...parentDirs, ...nestedDirs])];
+  dirs.sort((a, b) => depth(a) - depth(b));
+
+  const ruleLists = dirs.map((dir) => readRules(top, dir));
+  const rules = (await Promise.all(ruleLists)).flat();
+  if (!rules.length) return () => false;
+
+  return (file: string): boolean => {
+    const fileSegments = joinPath(rootPath, file).split("/");
+    return fileSegments.some((_, i) => {
+      const prefix = fileSegments.slice(0, i + 1).join("/");
+      return ignored(rules, prefix, i < fileSegments.length - 1);
+    });
+  };
+}
+
+/** @return the root of the enclosing git repository,
+ * or the project directory if there's no repository (or rootDir is outside of it) */
+async function topDir(rootDir: string, projectDir: string): Promise<string> {
+  for (let dir = path.resolve(rootDir); ; dir = path.dirname(dir)) {
+    const found = await fs.stat(path.join(dir, ".git")).catch(() => undefined);
+    if (found) return dir;
+    if (path.dirname(dir) === dir) break;
+  }
+  const relative = path.relative(projectDir, rootDir);
+  const inProject = !relative.startsWith("..") && !path.isAbsolute(relative);
+  return inProject ? path.resolve(projectDir) : path.resolve(rootDir);
+}
+
+/** @return the patterns in the .gitignore file of a directory (relative to the top directory) */
+async function readRules(top: string, dir: string): Promise<IgnoreRule[]> {
+  const gitignorePath = path.join(top, dir, ".gitignore");
+  const text = await fs.readFile(gitignorePath, "utf8").catch(() => "");
+  const lines = text.split(/\r?\n/).map((l) => l.trimEnd());
+  const patterns = lines.filter((l) => l && !l.startsWith("#"));
+  return patterns.map((p) => {
+    const negated = p.startsWith("!");
+    const unnegated = negated ? p.slice(1) : p;
+    const dirOnly = unnegated.endsWith("/");
+    const trimmed = dirOnly ? unnegated.slice(0, -1) : unnegated;
+    const anchored = trimmed.includes("/");
+    const regex = globRegex(trimmed.replace(/^\//, ""));
+    return { dir, regex, anchored, negated, dirOnly };
+  });
+}
+
+/** @return true if the last matching pattern for a path ignores it
+ * @param filePath path relative to the top directory */
+function ignored(
+  rules: IgnoreRule[],
+  filePath: string,
+  isDir: boolean
+): boolean {
+  let result = false;
+  for (const rule of rules) {
+    if (rule.dirOnly && !isDir) continue;
+    const { dir } = rule;
+    if (dir && !filePath.startsWith(dir + "/")) continue;
+    const relative = dir ? filePath.slice(dir.length + 1) : filePath;
+    const subject = rule.anchored ? relative : path.posix.basename(relative);
+    if (rule.regex.test(subject)) result = !rule.negated;
+  }
+  return result;
+}
+
+/** @return a regular expression for a .gitignore glob pattern */
+function globRegex(pattern: string): RegExp {
+  let re = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (pattern.startsWith("**/", i)) {
+      re += "(?:.*/)?";
+      i += 2;
+    } else if (pattern.startsWith("/**", i) && i + 3 === pattern.length) {
+      re += "/.*";
+      i += 2;
+    } else if (c === "*") {
+      re += "[^/]*";
+    } else if (c === "?") {
+      re += "[^/]";
+    } else if (c === "[" && pattern.indexOf("]", i + 2) !== -1) {
+      const end = pattern.indexOf("]", i + 2);
+      const members = pattern.slice(i + 1, end).replace(/^!/, "^");
+      re += `[${members.replace(/\\/g, "\\\\")}]`;
+      i = end;
+    } else if (c === "\\" && i + 1 < pattern.length) {
+      re += escapeRegex(pattern[++i]);
+    } else {
+      re += escapeRegex(c);
+    }
+  }
+  return new RegExp(`^${re}$`);
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
+
+function posixPath(p: string): string {
+  return p.split(path.sep).join("/");
+}
+
+function joinPath(dir: string, file: string): string {
+  return path.posix.join(dir, file).replace(/^\.$/, "");
+}
+
+function depth(dir: string): number {
+  return dir ? dir.split("/").length : 0;
+}
@@ -4,4 +4,7 @@ import { packagerCli } from "./packagerCli.js";
 
 const rawArgs = hideBin(process.argv);
 
-packagerCli(rawArgs);
\ No newline at end of file
+packagerCli(rawArgs).catch((e) => {
+  console.error(e.message);
+  process.exit(1);
+});
\ No newline at end of file
@@ -0,0 +1,169 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+/** paths and metadata for the package.json fields written by the packager */
+export interface PackageJsonFields {
+  projectDir: string;
+  outDir: string;
+  edition: string;
+
+  /** export the struct types module too */
+  emitTypes: boolean;
+}
+
+/**
+ * Add exports, files, and wesl entries for the bundled files to package.json.
+ *
+ * Existing entries that conflict with the packaged files are left unchanged,
+ * with a warning.
+ */
+export async function updatePackageJson(
+  fields: PackageJsonFields
+): Promise<void> {
+  const { projectDir, outDir, edition, emitTypes } = fields;
+  const pkgJsonPath = path.join(projectDir, "package.json");
+  const outRelative = path
+    .relative(projectDir, outDir)
+    .split(path.sep)
+    .join("/");
+  if (outRelative.startsWith("..") || path.isAbsolute(outRelative)) {
+    console.warn(
+      `package.json not updated, outDir "${outDir}" is outside of the project`
+    );
+    return;
+  }
+
+  const pkgJson = JSON.parse(await fs.readFile(pkgJsonPath, "utf8"));
+  const out = outRelative ? `./${outRelative}` : ".";
+  const exports: Record<string, Record<string, string>> = {
+    ".": {
+      types: `${out}/wgslBundle.d.ts`,
+      import: `${out}/wgslBundle.js`,
+    },
+  };
+  if (emitTypes) {
+    exports["./wgslTypes"] = {
+      types: `${out}/wgslTypes.d.ts`,
+      import: `${out}/wgslTypes.js`,
+    };
+  }
+  const wesl = { edition, bundle: `${out}/wgslBundle.js` };
+
+  const changed = [
+    mergeExports(pkgJson, exports, pkgJsonPath),
+    mergeFiles(pkgJson, outRelative || ".", pkgJsonPath),
+    mergeWesl(pkgJson, wesl, pkgJsonPath),
+  ];
+  if (changed.some((c) => c)) {
+    const text = JSON.stringify(pkgJson, null, 2) + "\n";
+    await fs.writeFile(pkgJsonPath, text);
+  }
+}
+
+/** add subpath exports for the bundle
+ * @return true if package.json was changed */
+function mergeExports(
+  pkgJson: Record<string, any>,
+  exports: Record<string, Record<string, string>>,
+  pkgJsonPath: string
+): boolean {
+  const current = pkgJson.exports;
+  if (current === undefined) {
+    // adding 'exports' would hide the package's other entry points
+    const entries = ["main", "module", "types"].filter((f) => f in pkgJson);
+    if (entries.length) {
+      console.warn(
+        `"${pkgJsonPath}" has '${entries.join("', '")}' but no 'exports', not adding 'exports' for the bundle`
+      );
+      return false;
+    }
+    pkgJson.exports = exports;
+    return true;
+  }
+  const subpaths =
+    isObject(current) && Object.keys(current).every((k) => k.startsWith("."));
+  if (!subpaths) {
+    console.warn(
+      `'exports' in "${pkgJsonPath}" isn't a map of subpaths, leaving it unchanged`
+    );
+    return false;
+  }
+
+  let changed = false;
+  Object.entries(exports).forEach(([subpath, entry]) => {
+    const existing = current[subpath];
+    if (existing === undefined) {
+      current[subpath] = entry;
+      changed = true;
+    } else if (JSON.stringify(existing) !== JSON.stringify(entry)) {
+      console.warn(
+        `'exports["${subpath}"]' in "${pkgJsonPath}" doesn't match the packaged files, leaving it unchanged`
+      );
+    }
+  });
+  return changed;
+}
+
+/** add the output directory to the published files
+ * @return true if package.json was changed */
+function mergeFiles(
+  pkgJson: Record<string, any>,
+  outRelative: string,
+  pkgJsonPath: string
+): boolean {
+  const { files } = pkgJson;
+  if (files === undefined) {
+    pkgJson.files = [outRelative];
+    return true;
+  }
+  if (!Array.isArray(files)) {
+    console.warn(
+      `'files' in "${pkgJsonPath}" isn't an array, leaving it unchanged`
+    );
+    return false;
+  }
+  const covered = files.some((f: string) => {
+    const dir = f.replace(/^\.\//, "").replace(/\/$/, "");
+    return outRelative === dir || outRelative.startsWith(dir + "/");
+  });
+  if (covered) return false;
+  files.push(outRelative);
+  return true;
+}
+
+/** add wesl package metadata (the bundle location and wesl edition)
+ * @return true if package.json was changed */
+function mergeWesl(
+  pkgJson: Record<string, any>,
+  wesl: Record<string, string>,
+  pkgJsonPath: string
+): boolean {
+  const current = pkgJson.wesl;
+  if (current === undefined) {
+    pkgJson.wesl = wesl;
+    return true;
+  }
+  if (!isObject(current)) {
+    console.warn(
+      `'wesl' in "${pkgJsonPath}" isn't an object, leaving it unchanged`
+    );
+    return false;
+  }
+
+  let changed = false;
+  Object.entries(wesl).forEach(([key, value]) => {
+    if (current[key] === undefined) {
+      current[key] = value;
+      changed = true;
+    } else if (current[key] !== value) {
+      console.warn(
+        `'wesl.${key}' in "${pkgJsonPath}" doesn't match the packaged files, leaving it unchanged`
+      );
+    }
+  });
+  return changed;
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
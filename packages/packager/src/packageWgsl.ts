@@ -1,19 +1,137 @@
 import { CliArgs } from "./packagerCli.js";
-import { glob } from "glob";
 import path from "node:path";
 import fs, { mkdir } from "node:fs/promises";
-import { WgslBundle } from "wgsl-linker";
+import {
+  collectDiagnostics,
+  Diagnostic,
+  formatDiagnostic,
+  importedPackages,
+  ModuleRegistry,
+  parseModule,
+  StructLayout,
+  structTypes,
+  TextModule,
+  WgslBundle,
+} from "wgsl-linker";
+import { updatePackageJson } from "./packageJson.js";
+import { validateBundle } from "./validateBundle.js";
+import { loadModules } from "./wgslBuild.js";
 import wgslBundleDecl from "../../linker/src/WgslBundle.ts?raw";
 
 export async function packageWgsl(args: CliArgs): Promise<void> {
-  const { packageJson, projectDir, outDir } = args;
-  const modules = await loadModules(args);
+  const { packageJson, projectDir, outDir, emitTypes } = args;
+  const { rootDir, include, exclude, gitignore } = args;
+  const loadOptions = { include, exclude, gitignore, projectDir };
+  const modules = await loadModules(rootDir, loadOptions);
+  const parsed = validateModules(modules);
+  failOnErrors(await validateBundle(modules, rootDir));
   const pkgJsonPath = path.join(projectDir, "package.json");
-  const { name, version, exports } = await loadPackageFields(pkgJsonPath);
+  const pkgFields = await loadPackageFields(pkgJsonPath);
+  const { name, version } = pkgFields;
   const edition = "wesl_unstable_2024_1";
+  const dependencies = bundleDependencies(parsed, pkgFields, pkgJsonPath);
 
-  await writeJsBundle({ name, version, edition, modules }, outDir);
+  await writeJsBundle(
+    { name, version, edition, modules },
+    dependencies,
+    outDir
+  );
   await writeTypeScriptDts(outDir);
+  if (emitTypes) {
+    await writeStructTypes(modules, outDir);
+  }
+  if (args.updatePackageJson) {
+    await updatePackageJson({ projectDir, outDir, edition, emitTypes });
+  }
+}
+
+/** verify that the wgsl modules parse without errors
+ * @return the parsed modules
+ * @throws Error if any module has errors, after logging the errors */
+function validateModules(modules: Record<string, string>): TextModule[] {
+  const results = Object.entries(modules).map(([filePath, src]) =>
+    collectDiagnostics(() => parseModule(src, filePath))
+  );
+  failOnErrors(results.flatMap(([, diagnostics]) => diagnostics));
+  return results.map(([module]) => module);
+}
+
+/** log any warnings (each distinct problem is logged once)
+ * @throws Error if there are any errors, after logging the errors */
+function failOnErrors(diagnostics: Diagnostic[]): void {
+  const logged = (severity: Diagnostic["severity"]): string[] => [
+    ...new Set(
+      diagnostics
+        .filter((d) => d.severity === severity)
+        .map((d) => formatDiagnostic(d))
+    ),
+  ];
+  logged("warning").forEach((msg) => console.warn(msg));
+  const errors = logged("error");
+  if (errors.length) {
+    errors.forEach((msg) => console.error(msg));
+    throw new Error("wgsl modules have errors");
+  }
+}
+
+/**
+ * @return the packages imported by the modules, with their version ranges
+ * as listed in package.json dependencies
+ * (imports within #if conditions are found only if the condition is true by default)
+ */
+function bundleDependencies(
+  modules: TextModule[],
+  pkgFields: PkgFields,
+  pkgJsonPath: string
+): Record<string, string> {
+  const { name, dependencies } = pkgFields;
+  const imported = new Set(modules.flatMap(importedPackages));
+  imported.delete(name);
+  const missing = [...imported].filter((p) => !dependencies[p]);
+  missing.forEach((p) =>
+    console.warn(
+      `package '${p}' is imported, but isn't listed in the dependencies in "${pkgJsonPath}"`
+    )
+  );
+  const listed = [...imported].filter((p) => dependencies[p]);
+  return Object.fromEntries(listed.map((p) => [p, dependencies[p]]));
+}
+
+/** write interfaces and buffer pack/unpack functions for the structs in the package */
+async function writeStructTypes(
+  modules: Record<string, string>,
+  outDir: string
+): Promise<void> {
+  const wgsl = Object.fromEntries(
+    Object.entries(modules).map(([p, src]) => ["./" + p, src])
+  );
+  const registry = new ModuleRegistry({ wgsl });
+  const structs = Object.keys(wgsl).flatMap(
+    (modulePath) => registry.reflect(modulePath).structs
+  );
+  const unique = uniqueStructs(structs);
+
+  const jsPath = path.join(outDir, "wgslTypes.js");
+  await fs.writeFile(jsPath, structTypes(unique, "js"));
+  const dtsPath = path.join(outDir, "wgslTypes.d.ts");
+  await fs.writeFile(dtsPath, structTypes(unique, "dts"));
+}
+
+/** @return structs with duplicates (reached from more than one module) removed */
+function uniqueStructs(structs: StructLayout[]): StructLayout[] {
+  const found = new Map<string, StructLayout>();
+  structs.forEach((s) => {
+    const key = `${s.addressSpace} ${s.name}`;
+    const prev = found.get(key);
+    if (!prev) {
+      found.set(key, s);
+    } else if (prev.modulePath !== s.modulePath) {
+      console.warn(
+        `struct '${s.name}' in ${s.modulePath} skipped, the name is already used in ${prev.modulePath}`
+      );
+    }
+  });
+  return [...found.values()];
 }
 
 async function writeTypeScriptDts(outDir: string): Promise<void> {
@@ -27,14 +145,35 @@ export default wgslBundle;
 
 }
 
+/** write the bundle as a js module,
+ * importing the bundles of the packages it depends on
+ * @param dependencies version ranges of the dependencies, by package name */
 async function writeJsBundle(
   wgslBundle: WgslBundle,
+  dependencies: Record<string, string>,
   outDir: string
 ): Promise<void> {
   await mkdir(outDir, { recursive: true });
 
-  const bundleString = JSON.stringify(wgslBundle, null, 2);
+  const packages = Object.keys(dependencies);
+  const depNames = packages.map((_, i) => `dep${i}`);
+  const imports = packages
+    .map((d, i) => `import ${depNames[i]} from "${d}";\n`)
+    .join("");
+  const depsPlaceholder = "__wgslBundleDependencies__";
+  const bundle = packages.length
+    ? {
+        ...wgslBundle,
+        dependencies: depsPlaceholder,
+        dependencyVersions: dependencies,
+      }
+    : wgslBundle;
+  const bundleString = JSON.stringify(bundle, null, 2).replace(
+    `"${depsPlaceholder}"`,
+    `[${depNames.join(", ")}]`
+  );
   const outString = `
+${imports}
 export const wgslBundle = ${bundleString}
 
 export default wgslBundle;
@@ -43,34 +182,18 @@ export default wgslBundle;
   await fs.writeFile(outPath, outString);
 }
 
-async function loadModules(args: CliArgs): Promise<Record<string, string>> {
-  const { rootDir, outDir, packageJson } = args;
-  const shaderFiles = await glob(`${rootDir}/*.w[ge]sl`, {
-    ignore: "node_modules/**",
-  });
-  const promisedSrcs = shaderFiles.map((f) =>
-    fs.readFile(f, { encoding: "utf8" })
-  );
-  const src = await Promise.all(promisedSrcs);
-  const relativePaths = shaderFiles.map((p) => path.relative(rootDir, p));
-  const moduleEntries = zip(relativePaths, src);
-  return Object.fromEntries(moduleEntries);
-}
-
-function zip<A, B>(as: A[], bs: B[]): [A, B][] {
-  return as.map((a, i) => [a, bs[i]]);
-}
-
 interface PkgFields {
   name: string;
   version: string;
-  exports?: Record<string, any>;
+
+  /** versions of the dependencies and peerDependencies, by package name */
+  dependencies: Record<string, string>;
 }
 
 async function loadPackageFields(pkgJsonPath: string): Promise<PkgFields> {
   const pkgJsonString = await fs.readFile(pkgJsonPath, { encoding: "utf8" });
   const pkgJson = JSON.parse(pkgJsonString);
-  const { version, name, exports } = pkgJson;
+  const { version, name, dependencies, peerDependencies } = pkgJson;
   verifyField("version", version);
   verifyField("name", name);
 
@@ -80,5 +203,9 @@ async function loadPackageFields(pkgJsonPath: string): Promise<PkgFields> {
       throw new Error("package.json incomplete");
     }
   }
-  return { name, version, exports };
+  return {
+    name,
+    version,
+    dependencies: { ...peerDependencies, ...dependencies },
+  };
 }
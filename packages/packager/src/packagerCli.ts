@@ -18,6 +18,21 @@ function parseArgs(args: string[]) {
       default: ".",
       describe: "base directory of WGSL/WESL files",
     })
+    .option("include", {
+      type: "string",
+      array: true,
+      describe: "glob patterns for WGSL/WESL files in rootDir (default: all)",
+    })
+    .option("exclude", {
+      type: "string",
+      array: true,
+      describe: "glob patterns for WGSL/WESL files to skip",
+    })
+    .option("gitignore", {
+      type: "boolean",
+      default: true,
+      describe: "skip files listed in .gitignore files",
+    })
     .option("projectDir", {
       type: "string",
       default: ".",
@@ -26,13 +41,19 @@ function parseArgs(args: string[]) {
     .option("updatePackageJson", {
       type: "boolean",
       default: true,
-      describe: "add export entries into package.json",
+      describe: "add exports, files, and wesl entries to package.json",
     })
     .option("outDir", {
       type: "string",
       default: "dist",
       describe: "where to put bundled output files",
     })
+    .option("emitTypes", {
+      type: "boolean",
+      default: false,
+      describe:
+        "add TypeScript interfaces and buffer pack/unpack functions for WGSL structs",
+    })
     .help()
     .parseSync();
 }
@@ -0,0 +1,136 @@
+import { build } from "esbuild";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { expect, test } from "vitest";
+import { wgslEsbuildPlugin } from "../esbuildPlugin.js";
+import wgslLoader, { LoaderContext } from "../webpackLoader.js";
+import { WgslLoaderOptions } from "../wgslBuild.js";
+
+const shaders = {
+  "main.wgsl": `
+    import ./util/dot2
+    fn main() { dot2(); }
+  `,
+  "util.wgsl": `
+    #if DEBUG
+    export fn dot2() { /* debug */ }
+    #else
+    export fn dot2() { /* fast */ }
+    #endif
+  `,
+};
+
+const badShaders = {
+  "main.wgsl": `
+    import ./util/missing
+    fn main() { missing(); }
+  `,
+  "util.wgsl": `export fn other() { }`,
+};
+
+test("esbuild link with defines", async () => {
+  await withFiles(shaders, async (dir) => {
+    const mainJs = `import shader from "./main.wgsl?link"; export default shader;`;
+    const code = await esbuildBundle(dir, mainJs, { defines: { DEBUG: true } });
+    expect(code).includes("fn main()");
+    expect(code).includes("/* debug */");
+  });
+});
+
+test("esbuild registry input", async () => {
+  await withFiles(shaders, async (dir) => {
+    const mainJs = `import input from "./main.wgsl?registry"; export default input;`;
+    const code = await esbuildBundle(dir, mainJs);
+    expect(code).includes("./main.wgsl");
+    expect(code).includes("./util.wgsl");
+  });
+});
+
+test("esbuild reports link errors", async () => {
+  await withFiles(badShaders, async (dir) => {
+    const mainJs = `import shader from "./main.wgsl?link"; export default shader;`;
+    const error = await esbuildBundle(dir, mainJs).catch((e) => e);
+    const [first] = error.errors;
+    expect(first.text).includes("missing");
+    expect(first.location.file).toMatch(/main\.wgsl$/);
+    expect(first.location.line).eq(3);
+  });
+});
+
+test("webpack loader links with defines", async () => {
+  await withFiles(shaders, async (dir) => {
+    const options = { defines: { DEBUG: false } };
+    const { result } = await runWebpackLoader(dir, "main.wgsl?link", options);
+    expect(result).includes("fn main()");
+    expect(result).includes("/* fast */");
+  });
+});
+
+test("webpack loader reports link errors", async () => {
+  await withFiles(badShaders, async (dir) => {
+    const { error, dependencies } = await runWebpackLoader(dir, "main.wgsl");
+    expect(error?.message).includes("main.wgsl:3:");
+    expect(dependencies.length).eq(2);
+  });
+});
+
+async function esbuildBundle(
+  dir: string,
+  mainJs: string,
+  options?: WgslLoaderOptions
+): Promise<string> {
+  const result = await build({
+    stdin: { contents: mainJs, resolveDir: dir },
+    absWorkingDir: dir,
+    bundle: true,
+    format: "esm",
+    write: false,
+    logLevel: "silent",
+    plugins: [wgslEsbuildPlugin(options)],
+  });
+  return result.outputFiles[0].text;
+}
+
+interface LoaderRun {
+  result?: string;
+  error?: Error | null;
+  dependencies: string[];
+}
+
+/** run the webpack loader with a minimal loader context */
+function runWebpackLoader(
+  dir: string,
+  request: string,
+  options: WgslLoaderOptions = {}
+): Promise<LoaderRun> {
+  const [file, query] = request.split("?");
+  const dependencies: string[] = [];
+  return new Promise((resolve) => {
+    const ctx: LoaderContext = {
+      resourcePath: path.join(dir, file),
+      resourceQuery: query ? `?${query}` : "",
+      rootContext: dir,
+      getOptions: () => options,
+      async: () => (error, result) => resolve({ error, result, dependencies }),
+      addDependency: (f) => dependencies.push(f),
+      emitWarning: () => {},
+    };
+    wgslLoader.call(ctx);
+  });
+}
+
+async function withFiles(
+  files: Record<string, string>,
+  fn: (dir: string) => Promise<void>
+): Promise<void> {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "wgsl-loader-"));
+  try {
+    Object.entries(files).forEach(([f, text]) =>
+      fs.writeFileSync(path.join(tmpDir, f), text)
+    );
+    await fn(tmpDir);
+  } finally {
+    fs.rmSync(tmpDir, { recursive: true });
+  }
+}
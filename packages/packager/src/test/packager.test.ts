@@ -1,8 +1,10 @@
-import { expect, test } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import { expect, test, vi } from "vitest";
 import { packagerCli } from "../packagerCli.js";
 import { rimraf } from "rimraf";
 import path from "path";
-import { mkdir } from "node:fs/promises";
+import { mkdir, readFile } from "node:fs/promises";
 
 test("package two wgsl files", async () => {
   const projectDir = path.join(".", "src", "test", "wgsl-package");
@@ -11,10 +13,295 @@ test("package two wgsl files", async () => {
   await rimraf(distDir);
   await mkdir(distDir);
   packageCli(
-    `--projectDir ${projectDir} --rootDir ${srcDir} --outDir ${distDir}`
+    `--projectDir ${projectDir} --rootDir ${srcDir} --outDir ${distDir} --no-updatePackageJson`
   );
 });
 
+test("package with struct types", async () => {
+  const projectDir = path.join(".", "src", "test", "wgsl-types-package");
+  const distDir = path.join(projectDir, "dist");
+  const srcDir = path.join(projectDir, "src");
+  await rimraf(distDir);
+  await mkdir(distDir, { recursive: true });
+  await packageCli(
+    `--projectDir ${projectDir} --rootDir ${srcDir} --outDir ${distDir} --emitTypes --no-updatePackageJson`
+  );
+  const dts = await readFile(path.join(distDir, "wgslTypes.d.ts"), "utf8");
+  expect(dts).includes("export interface Params {");
+  expect(dts).includes("export declare function packParams(");
+  const js = await readFile(path.join(distDir, "wgslTypes.js"), "utf8");
+  expect(js).includes("export const ParamsSize = 16;");
+});
+
+test("package wgsl files in subdirectories", async () => {
+  const files = {
+    "package.json": `{ "name": "sub-pkg", "version": "0.1.0" }`,
+    ".gitignore": "generated/\n",
+    "lib.wesl": "import ./noise/perlin/perlin\nfn foo() { perlin(); }",
+    "noise/perlin.wesl": "export fn perlin() { }",
+    "noise/old/simplex.wgsl": "fn simplex() { }",
+    "generated/tmp.wgsl": "fn tmp() { }",
+  };
+  await withProject(files, async (dir) => {
+    await packageCli(
+      `--projectDir ${dir} --rootDir ${dir} --outDir ${dir}/dist --exclude **/old/**`
+    );
+    const bundle = await readFile(
+      path.join(dir, "dist", "wgslBundle.js"),
+      "utf8"
+    );
+    expect(bundle).includes(`"noise/perlin.wesl"`);
+    expect(bundle).includes(`"lib.wesl"`);
+    expect(bundle).not.includes("simplex");
+    expect(bundle).not.includes("tmp.wgsl");
+  });
+});
+
+test("skip files in .gitignore files from the project dir down", async () => {
+  const files = {
+    "package.json": `{ "name": "ignore-pkg", "version": "0.1.0" }`,
+    ".gitignore":
+      "*.gen.wgsl\n!keep.gen.wgsl\nskipped/\n!skipped/inside.wgsl\n",
+    "src/lib.wesl": "fn lib() { }",
+    "src/noise.gen.wgsl": "fn noise() { }",
+    "src/keep.gen.wgsl": "fn keep() { }",
+    "src/skipped/inside.wgsl": "fn inside() { }",
+    "src/sub/.gitignore": "local.wgsl\n",
+    "src/sub/local.wgsl": "fn local() { }",
+    "src/sub/shared.wgsl": "fn shared() { }",
+  };
+  await withProject(files, async (dir) => {
+    await packageCli(
+      `--projectDir ${dir} --rootDir ${dir}/src --outDir ${dir}/dist`
+    );
+    const bundle = await readFile(
+      path.join(dir, "dist", "wgslBundle.js"),
+      "utf8"
+    );
+    expect(bundle).includes(`"lib.wesl"`);
+    expect(bundle).includes(`"keep.gen.wgsl"`);
+    expect(bundle).includes(`"sub/shared.wgsl"`);
+    expect(bundle).not.includes("noise.gen.wgsl");
+    expect(bundle).not.includes("inside.wgsl");
+    expect(bundle).not.includes("local.wgsl");
+  });
+});
+
+test("don't package files with parse errors", async () => {
+  const files = {
+    "package.json": `{ "name": "bad-pkg", "version": "0.1.0" }`,
+    "lib.wesl": "fn foo() { }\n#endif\n",
+  };
+  await withProject(files, async (dir) => {
+    const consoleError = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+    const packaged = packageCli(
+      `--projectDir ${dir} --rootDir ${dir} --outDir ${dir}/dist`
+    );
+    await expect(packaged).rejects.toThrow("errors");
+    expect(consoleError.mock.calls[0][0]).includes("lib.wesl:2:");
+    consoleError.mockRestore();
+    expect(fs.existsSync(path.join(dir, "dist", "wgslBundle.js"))).toBe(false);
+  });
+});
+
+test("update package.json", async () => {
+  const files = {
+    "package.json": `{ "name": "pkg", "version": "0.1.0", "files": ["src"] }`,
+    "lib.wesl": "fn foo() { }",
+  };
+  await withProject(files, async (dir) => {
+    await packageCli(
+      `--projectDir ${dir} --rootDir ${dir} --outDir ${dir}/dist --emitTypes`
+    );
+    const pkgJson = JSON.parse(
+      await readFile(path.join(dir, "package.json"), "utf8")
+    );
+    expect(pkgJson.exports).toEqual({
+      ".": {
+        types: "./dist/wgslBundle.d.ts",
+        import: "./dist/wgslBundle.js",
+      },
+      "./wgslTypes": {
+        types: "./dist/wgslTypes.d.ts",
+        import: "./dist/wgslTypes.js",
+      },
+    });
+    expect(pkgJson.files).toEqual(["src", "dist"]);
+    expect(pkgJson.wesl).toEqual({
+      edition: "wesl_unstable_2024_1",
+      bundle: "./dist/wgslBundle.js",
+    });
+  });
+});
+
+test("leave conflicting package.json entries unchanged", async () => {
+  const exports = { ".": "./index.js" };
+  const pkgJson = { name: "pkg", version: "0.1.0", exports, files: ["out"] };
+  const files = {
+    "package.json": JSON.stringify(pkgJson),
+    "lib.wesl": "fn foo() { }",
+  };
+  await withProject(files, async (dir) => {
+    const consoleWarn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    await packageCli(
+      `--projectDir ${dir} --rootDir ${dir} --outDir ${dir}/dist`
+    );
+    expect(consoleWarn.mock.calls[0][0]).includes(`exports["."]`);
+    consoleWarn.mockRestore();
+
+    const updated = JSON.parse(
+      await readFile(path.join(dir, "package.json"), "utf8")
+    );
+    expect(updated.exports).toEqual(exports);
+    expect(updated.files).toEqual(["out", "dist"]);
+  });
+});
+
+test("don't add exports that would hide the package's main entry", async () => {
+  const pkgJson = { name: "pkg", version: "0.1.0", main: "index.js" };
+  const files = {
+    "package.json": JSON.stringify(pkgJson),
+    "lib.wesl": "fn foo() { }",
+  };
+  await withProject(files, async (dir) => {
+    const consoleWarn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    await packageCli(
+      `--projectDir ${dir} --rootDir ${dir} --outDir ${dir}/dist`
+    );
+    expect(consoleWarn.mock.calls[0][0]).includes("'main'");
+    consoleWarn.mockRestore();
+
+    const updated = JSON.parse(
+      await readFile(path.join(dir, "package.json"), "utf8")
+    );
+    expect(updated.exports).toBeUndefined();
+    expect(updated.main).eq("index.js");
+    expect(updated.files).toEqual(["dist"]);
+    expect(updated.wesl.bundle).eq("./dist/wgslBundle.js");
+  });
+});
+
+test("bundle dependencies on other wgsl packages", async () => {
+  const hashBundle = {
+    name: "hash",
+    version: "1.0.0",
+    edition: "wesl_unstable_2024_1",
+    modules: { "lib.wgsl": "export fn hash() { }" },
+  };
+  const pkgJson = {
+    name: "noise",
+    version: "0.2.0",
+    type: "module",
+    dependencies: { hash: "^1.0.0" },
+  };
+  const files = {
+    "package.json": JSON.stringify(pkgJson),
+    "lib.wesl": `
+      import hash/hash
+      import rand/pcg
+      export fn noise() { hash(); }
+    `,
+    "node_modules/hash/package.json": `{ "name": "hash", "main": "index.js", "type": "module" }`,
+    "node_modules/hash/index.js": `export default ${JSON.stringify(hashBundle)};`,
+  };
+  await withProject(files, async (dir) => {
+    const consoleWarn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    await packageCli(
+      `--projectDir ${dir} --rootDir ${dir} --outDir ${dir}/dist --no-updatePackageJson`
+    );
+    expect(consoleWarn.mock.calls[0][0]).includes("'rand'");
+    consoleWarn.mockRestore();
+
+    const bundlePath = path.join(dir, "dist", "wgslBundle.js");
+    const { wgslBundle } = await import(bundlePath);
+    expect(wgslBundle.dependencies).toEqual([hashBundle]);
+    expect(wgslBundle.dependencyVersions).toEqual({ hash: "^1.0.0" });
+  });
+});
+
+test("don't package exports that don't link", async () => {
+  const files = {
+    "package.json": `{ "name": "bad-pkg", "version": "0.1.0" }`,
+    "lib.wesl": "import ./util/helper\nexport fn foo() { helper(); }",
+    "util.wesl": "export fn helper() {\n  missing();\n}",
+  };
+  await withProject(files, async (dir) => {
+    const consoleError = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+    const packaged = packageCli(
+      `--projectDir ${dir} --rootDir ${dir} --outDir ${dir}/dist`
+    );
+    await expect(packaged).rejects.toThrow("errors");
+    const logged = consoleError.mock.calls.map((c) => c[0]);
+    consoleError.mockRestore();
+    expect(logged).toHaveLength(1);
+    expect(logged[0]).includes("util.wesl:2:");
+    expect(logged[0]).includes("missing");
+    expect(fs.existsSync(path.join(dir, "dist", "wgslBundle.js"))).toBe(false);
+  });
+});
+
+test("don't package import cycles", async () => {
+  const files = {
+    "package.json": `{ "name": "cycle-pkg", "version": "0.1.0" }`,
+    "a.wesl": "import ./b/bar\nexport fn foo() { bar(); }",
+    "b.wesl": "import ./a/foo\nexport fn bar() { foo(); }",
+  };
+  await withProject(files, async (dir) => {
+    const consoleError = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+    const packaged = packageCli(
+      `--projectDir ${dir} --rootDir ${dir} --outDir ${dir}/dist`
+    );
+    await expect(packaged).rejects.toThrow("errors");
+    const logged = consoleError.mock.calls.map((c) => c[0]);
+    consoleError.mockRestore();
+    expect(logged).toEqual([
+      "b.wesl:1:1 import cycle: _root/a.wesl -> _root/b.wesl -> _root/a.wesl",
+    ]);
+  });
+});
+
+test("package modules with warnings", async () => {
+  const files = {
+    "package.json": `{ "name": "warn-pkg", "version": "0.1.0" }`,
+    "lib.wesl": "export fn foo() {\n  $\n}",
+  };
+  await withProject(files, async (dir) => {
+    const consoleWarn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    await packageCli(
+      `--projectDir ${dir} --rootDir ${dir} --outDir ${dir}/dist --no-updatePackageJson`
+    );
+    const warned = consoleWarn.mock.calls.map((c) => c[0]);
+    consoleWarn.mockRestore();
+    expect(warned).toHaveLength(1);
+    expect(warned[0]).includes("lib.wesl:2:3 skipped: '$'");
+    expect(fs.existsSync(path.join(dir, "dist", "wgslBundle.js"))).toBe(true);
+  });
+});
+
+/** run a test in a temporary project directory with the provided files */
+async function withProject(
+  files: Record<string, string>,
+  fn: (dir: string) => Promise<void>
+): Promise<void> {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "wgsl-packager-"));
+  try {
+    Object.entries(files).forEach(([f, text]) => {
+      const filePath = path.join(tmpDir, f);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, text);
+    });
+    await fn(tmpDir);
+  } finally {
+    fs.rmSync(tmpDir, { recursive: true });
+  }
+}
+
 function packageCli(argsLine: string): Promise<void> {
   return packagerCli(argsLine.split(/\s+/));
 }
@@ -0,0 +1,6 @@
+struct Params {
+  scale: f32,
+  offset: vec2f,
+}
+
+@group(0) @binding(0) var<uniform> params: Params;
@@ -0,0 +1,147 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { build, Plugin, Rollup } from "vite";
+import { expect, test } from "vitest";
+import { wgslPlugin, WgslPluginOptions } from "../wgslPlugin.js";
+
+test("import linked wgsl", async () => {
+  const code = await buildShaders(
+    {
+      "shaders/main.wesl": `
+        import ./util/dot2
+        fn main() { dot2(); }
+      `,
+      "shaders/util.wgsl": `export fn dot2() { /* util */ }`,
+    },
+    `import shader from "./shaders/main.wesl?link"; export default shader;`
+  );
+  expect(code).includes("fn main()");
+  expect(code).includes("/* util */");
+});
+
+test("import registry input", async () => {
+  const code = await buildShaders(
+    {
+      "main.wgsl": `
+        import ./util/dot2
+        fn main() { dot2(); }
+      `,
+      "util.wgsl": `export fn dot2() { }`,
+      "unused.wgsl": `fn unused() { }`,
+    },
+    `import input from "./main.wgsl?registry"; export default input;`
+  );
+  expect(code).includes("./main.wgsl");
+  expect(code).includes("./util.wgsl");
+  expect(code).includes("./unused.wgsl");
+});
+
+test("import package bundle", async () => {
+  const bundle = {
+    name: "test-pkg",
+    version: "0.1.0",
+    edition: "wesl_unstable_2024_1",
+    modules: { "lib.wgsl": "export fn pkgFn() { /* from pkg */ }" },
+  };
+  const pkgJson = { name: "test-pkg", main: "index.js", type: "module" };
+  const code = await buildShaders(
+    {
+      "main.wgsl": "import test-pkg/pkgFn\nfn main() { pkgFn(); }",
+      "node_modules/test-pkg/package.json": JSON.stringify(pkgJson),
+      "node_modules/test-pkg/index.js": `export default ${JSON.stringify(bundle)};`,
+    },
+    `import shader from "./main.wgsl?link"; export default shader;`
+  );
+  expect(code).includes("/* from pkg */");
+});
+
+test("link with defines", async () => {
+  const code = await buildShaders(
+    {
+      "main.wgsl": `
+        #if DEBUG
+        fn debug() { }
+        #endif
+        fn main() { }
+      `,
+    },
+    `import shader from "./main.wgsl?link"; export default shader;`,
+    { defines: { DEBUG: true } }
+  );
+  expect(code).includes("fn debug()");
+});
+
+test("report link errors with position", async () => {
+  const files = {
+    "main.wgsl": `
+      import ./util/missing
+      fn main() { missing(); }
+    `,
+    "util.wgsl": `export fn other() { }`,
+  };
+  const main = `import shader from "./main.wgsl?link"; export default shader;`;
+  const error = await buildShaders(files, main).catch((e) => e);
+  expect(error).toBeInstanceOf(Error);
+  expect(error.message).includes("missing");
+  expect(error.id).toMatch(/main\.wgsl$/);
+  expect(error.loc?.line).eq(3);
+});
+
+test("relink after a file changes", async () => {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "wgsl-plugin-"));
+  const utilPath = path.join(tmpDir, "util.wgsl");
+  writeFiles(tmpDir, {
+    "main.wgsl": "import ./util/foo\nfn main() { foo(); }",
+    "util.wgsl": "export fn foo() { /* v1 */ }",
+    "main.js": `import shader from "./main.wgsl?link"; export default shader;`,
+  });
+  const plugin = wgslPlugin();
+  try {
+    expect(await bundle(tmpDir, plugin)).includes("/* v1 */");
+    fs.writeFileSync(utilPath, "export fn foo() { /* v2 */ }");
+    expect(await bundle(tmpDir, plugin)).includes("/* v2 */");
+  } finally {
+    fs.rmSync(tmpDir, { recursive: true });
+  }
+});
+
+/** build a temporary project with the wgsl plugin
+ * @return the bundled js */
+async function buildShaders(
+  files: Record<string, string>,
+  mainJs: string,
+  options: WgslPluginOptions = {}
+): Promise<string> {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "wgsl-plugin-"));
+  try {
+    writeFiles(tmpDir, { ...files, "main.js": mainJs });
+    return await bundle(tmpDir, wgslPlugin(options));
+  } finally {
+    fs.rmSync(tmpDir, { recursive: true });
+  }
+}
+
+function writeFiles(dir: string, files: Record<string, string>): void {
+  Object.entries(files).forEach(([f, text]) => {
+    const filePath = path.join(dir, f);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, text);
+  });
+}
+
+/** bundle main.js in a project directory with vite */
+async function bundle(root: string, plugin: Plugin): Promise<string> {
+  const result = await build({
+    root,
+    logLevel: "silent",
+    configFile: false,
+    plugins: [plugin],
+    build: {
+      write: false,
+      lib: { entry: path.join(root, "main.js"), formats: ["es"] },
+    },
+  });
+  const [output] = result as Rollup.RollupOutput[];
+  return output.output[0].code;
+}
@@ -0,0 +1,104 @@
+import {
+  collectDiagnostics,
+  Diagnostic,
+  formatDiagnostic,
+  ModuleLoader,
+  ModuleRegistry,
+  noSuffix,
+  reportImportCycles,
+  rootRelativePath,
+  TextModule,
+} from "wgsl-linker";
+import { FileLoader } from "./fileLoader.js";
+
+/** root module for linking each export */
+const validateFile = "__validate__.wgsl";
+const validatePath = "./" + validateFile;
+
+/**
+ * Check that each exported fn and struct links without problems,
+ * (e.g. unresolved references or parse errors in the packages it imports),
+ * and that the modules don't import each other in a cycle.
+ * (parse problems in the packaged modules aren't reported again here)
+ *
+ * Imports from other packages are loaded from node_modules.
+ * (exports with arguments aren't checked, they need arguments from an importer)
+ *
+ * @param modules wgsl src by file path relative to rootDir, as in the bundle
+ * @return the problems found, with module paths relative to rootDir (e.g. noise/perlin.wesl)
+ */
+export async function validateBundle(
+  modules: Record<string, string>,
+  rootDir: string
+): Promise<Diagnostic[]> {
+  const wgsl = Object.fromEntries(
+    Object.entries(modules).map(([p, src]) => ["./" + p, src])
+  );
+  const loader = packageLoader(rootDir);
+  const registry = new ModuleRegistry({ wgsl, loader });
+
+  // the same problem may be found through several exports
+  const found = new Map<string, Diagnostic>();
+  const record = (d: Diagnostic): void => {
+    const rootPath = d.modulePath && rootRelativePath(d.modulePath);
+    if (d.code === "parse" && rootPath) return;
+    const modulePath = rootPath || d.modulePath;
+    found.set(formatDiagnostic(d), { ...d, modulePath });
+  };
+
+  const [parsed] = collectDiagnostics(() => registry.parsed());
+  const [, cycles] = collectDiagnostics(() => reportImportCycles(parsed));
+  cycles.forEach(record);
+
+  const rootModules = parsed.textModules.filter(
+    (m) => rootRelativePath(m.modulePath) !== undefined
+  );
+  for (const module of rootModules) {
+    for (const exp of module.exports) {
+      const src = exportRootSrc(module, exp);
+      if (!src) continue;
+      registry.updateModule(validatePath, src);
+      await registry.linkAsync(validatePath, {}, (d) =>
+        record(exportDiagnostic(d, module, exp.ref.name))
+      );
+    }
+  }
+  return [...found.values()];
+}
+
+/** @return wgsl src for a root module that uses an export, or undefined if the export isn't checked */
+function exportRootSrc(
+  module: TextModule,
+  exp: TextModule["exports"][number]
+): string | undefined {
+  const { name, kind } = exp.ref;
+  if (exp.args?.length) return undefined;
+  const modulePath = "./" + noSuffix(rootRelativePath(module.modulePath)!);
+  const importLine = `import ${modulePath}/${name}`;
+  if (kind === "fn") return `${importLine}\nfn __validate() { ${name}(); }`;
+  if (kind === "struct") return `${importLine}\nfn __validate(v: ${name}) { }`;
+  return undefined;
+}
+
+/** attribute problems in the validation root module to the export */
+function exportDiagnostic(
+  d: Diagnostic,
+  module: TextModule,
+  exportName: string
+): Diagnostic {
+  const fromPath = d.modulePath && rootRelativePath(d.modulePath);
+  if (fromPath !== validateFile) return d;
+  const { severity, code, message } = d;
+  const modulePath = module.modulePath;
+  return { severity, code, modulePath, message: `${exportName}: ${message}` };
+}
+
+/** load modules from packages in node_modules
+ * (but not other files, only the packaged modules are linked from the root package) */
+function packageLoader(rootDir: string): ModuleLoader {
+  const files = new FileLoader(rootDir);
+  return {
+    load: async (modulePath) =>
+      modulePath.startsWith("./") ? undefined : files.load(modulePath),
+  };
+}
@@ -0,0 +1,67 @@
+import path from "node:path";
+import {
+  BuildMessage,
+  buildMessages,
+  moduleName,
+  wgslBuild,
+  WgslLoaderOptions,
+  wgslModuleJs,
+} from "./wgslBuild.js";
+
+/** the parts of the webpack loader context used by the loader */
+export interface LoaderContext {
+  resourcePath: string;
+  resourceQuery: string;
+  rootContext: string;
+  getOptions(): WgslLoaderOptions;
+  async(): (err: Error | null, result?: string) => void;
+  addDependency(file: string): void;
+  emitWarning(warning: Error): void;
+}
+
+/**
+ * A webpack loader for wgsl/wesl files.
+ *
+ * `import shader from "./main.wesl?link"` imports the linked wgsl text.
+ * Other imports (e.g. `import input from "./main.wesl"`) import the wgsl sources
+ * and package bundles to link main.wesl at runtime,
+ * e.g. `new ModuleRegistry(input).link("./main")`.
+ *
+ * Problems found while linking are reported as build errors.
+ */
+export default function wgslLoader(this: LoaderContext): void {
+  const callback = this.async();
+  loadWgsl(this).then(
+    (js) => callback(null, js),
+    (e) => callback(e)
+  );
+}
+
+async function loadWgsl(ctx: LoaderContext): Promise<string> {
+  const { rootDir: optionsRoot = ".", defines } = ctx.getOptions() ?? {};
+  const rootDir = path.resolve(ctx.rootContext, optionsRoot);
+  const { resourcePath, resourceQuery } = ctx;
+  const entry = moduleName(resourcePath, rootDir);
+  if (!entry) {
+    throw new Error(
+      `wgsl file ${resourcePath} is outside of the root dir: ${rootDir}`
+    );
+  }
+
+  const built = await wgslBuild({ rootDir, entries: [entry], defines });
+  built.files.forEach((f) => ctx.addDependency(f));
+  const { errors, warnings } = buildMessages(built, rootDir);
+  warnings.forEach((w) => ctx.emitWarning(new Error(messageText(w))));
+  if (errors.length) {
+    throw new Error(errors.map(messageText).join("\n"));
+  }
+  return wgslModuleJs(built, entry, resourceQuery === "?link");
+}
+
+/** @return message text with the file position, e.g. /src/util.wgsl:3:7 ... */
+function messageText(message: BuildMessage): string {
+  const { text, file, line, column } = message;
+  if (!file) return text;
+  const position = line !== undefined ? `:${line}:${column! + 1}` : "";
+  return `${file}${position}\n  ${text}`;
+}
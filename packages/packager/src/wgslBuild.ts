@@ -0,0 +1,205 @@
+import { glob } from "glob";
+import fs from "node:fs/promises";
+import path from "node:path";
+import {
+  Diagnostic,
+  formatDiagnostic,
+  ModuleRegistry,
+  noSuffix,
+  rootRelativePath,
+  WgslBundle,
+} from "wgsl-linker";
+import { FileLoader } from "./fileLoader.js";
+import { gitignoreMatcher } from "./gitignore.js";
+
+/** options for building wgsl/wesl files in a bundler loader */
+export interface WgslBuildOptions {
+  /** base directory of the WGSL/WESL files */
+  rootDir: string;
+
+  /** modules to link, e.g. ./main */
+  entries?: string[];
+
+  /** runtime params for linking the entries, e.g. for #if conditions */
+  defines?: Record<string, any>;
+}
+
+/** options for the bundler loaders */
+export interface WgslLoaderOptions {
+  /** base directory of the WGSL/WESL files (default: the current directory) */
+  rootDir?: string;
+
+  /** runtime params for linking, e.g. for #if conditions */
+  defines?: Record<string, any>;
+}
+
+/** wgsl sources and linked entry points, ready to bundle */
+export interface WgslBuild {
+  /** wgsl src by file name, e.g. ./util.wgsl (as in the ModuleRegistry wgsl param) */
+  wgsl: Record<string, string>;
+
+  /** bundles of the imported packages */
+  libs: WgslBundle[];
+
+  /** linked wgsl of each entry */
+  linked: Record<string, string>;
+
+  /** problems found while linking the entries */
+  diagnostics: Diagnostic[];
+
+  /** absolute paths of the files read (e.g. to watch for changes) */
+  files: string[];
+}
+
+/** a diagnostic, positioned in the wgsl file if possible */
+export interface BuildMessage {
+  text: string;
+  file?: string;
+
+  /** line number (first line is 1) */
+  line?: number;
+
+  /** column in the line (first column is 0) */
+  column?: number;
+}
+
+/**
+ * Read the wgsl files in a directory, and link the entry modules.
+ * Imported modules in other directories or packages are loaded as needed
+ * (packages from the WgslBundle exported by the package in node_modules).
+ */
+export async function wgslBuild(options: WgslBuildOptions): Promise<WgslBuild> {
+  const { rootDir, entries = [], defines = {} } = options;
+  const modules = await loadModules(rootDir);
+  const wgsl = Object.fromEntries(
+    Object.entries(modules).map(([p, src]) => ["./" + p, src])
+  );
+  const loader = new FileLoader(rootDir);
+  const registry = new ModuleRegistry({ wgsl, loader });
+
+  const diagnostics: Diagnostic[] = [];
+  const linked: Record<string, string> = {};
+  for (const entry of entries) {
+    linked[entry] = await registry.linkAsync(entry, defines, (d) =>
+      diagnostics.push(d)
+    );
+  }
+
+  const loaded = [...loader.files.values()];
+  loaded.forEach((f) => (wgsl[f.fileName] = f.src));
+  const files = Object.keys(wgsl).map((f) => path.resolve(rootDir, f));
+  const libs = await loader.loadedBundles();
+  return { wgsl, libs, linked, diagnostics, files };
+}
+
+/** options for finding the WGSL/WESL files in a directory */
+export interface LoadModulesOptions {
+  /** glob patterns for the files to include (default: all .wgsl and .wesl files) */
+  include?: string[];
+
+  /** glob patterns for files to skip */
+  exclude?: string[];
+
+  /** skip files matched by .gitignore files (default true) */
+  gitignore?: boolean;
+
+  /** top directory for .gitignore files, if the directory isn't in a git repository */
+  projectDir?: string;
+}
+
+/** @return the wgsl src of the WGSL/WESL files in a directory and its subdirectories,
+ * by file path relative to the directory (e.g. noise/perlin.wesl) */
+export async function loadModules(
+  rootDir: string,
+  options: LoadModulesOptions = {}
+): Promise<Record<string, string>> {
+  const { include = ["**/*.w[ge]sl"], exclude = [], projectDir } = options;
+  const found = await glob(include, {
+    cwd: rootDir,
+    ignore: ["**/node_modules/**", ...exclude],
+    nodir: true,
+    posix: true,
+  });
+  const ignored =
+    options.gitignore === false
+      ? () => false
+      : await gitignoreMatcher(rootDir, projectDir);
+  const shaderFiles = found.filter((f) => !ignored(f)).sort();
+  const promisedSrcs = shaderFiles.map((f) =>
+    fs.readFile(path.join(rootDir, f), { encoding: "utf8" })
+  );
+  const src = await Promise.all(promisedSrcs);
+  const moduleEntries = zip(shaderFiles, src);
+  return Object.fromEntries(moduleEntries);
+}
+
+/**
+ * @return js module text exporting the linked wgsl of an entry (for ?link imports),
+ * or the registry params to link the entry at runtime
+ */
+export function wgslModuleJs(
+  build: WgslBuild,
+  entry: string,
+  link: boolean
+): string {
+  if (link) return `export default ${JSON.stringify(build.linked[entry])};`;
+  const { wgsl, libs } = build;
+  return `export default ${JSON.stringify({ wgsl, libs }, null, 2)};`;
+}
+
+/** @return the module name of a wgsl file in the root directory, e.g. ./shaders/main
+ * (or undefined if the file is outside of the root directory) */
+export function moduleName(
+  filePath: string,
+  rootDir: string
+): string | undefined {
+  const relative = path.relative(rootDir, filePath).split(path.sep).join("/");
+  if (relative.startsWith("..") || path.isAbsolute(relative)) return undefined;
+  const suffix = path.extname(relative);
+  return "./" + relative.slice(0, relative.length - suffix.length);
+}
+
+/** @return the error and warning diagnostics as build messages */
+export function buildMessages(
+  build: WgslBuild,
+  rootDir: string
+): { errors: BuildMessage[]; warnings: BuildMessage[] } {
+  const { diagnostics } = build;
+  const messages = (severity: Diagnostic["severity"]): BuildMessage[] =>
+    diagnostics
+      .filter((d) => d.severity === severity)
+      .map((d) => buildMessage(d, build, rootDir));
+  return { errors: messages("error"), warnings: messages("warning") };
+}
+
+function buildMessage(
+  d: Diagnostic,
+  build: WgslBuild,
+  rootDir: string
+): BuildMessage {
+  const text = formatDiagnostic(d);
+  const { modulePath, lineNum, linePos } = d;
+  const file = modulePath && moduleFile(modulePath, build, rootDir);
+  if (!file) return { text };
+  if (lineNum === undefined || linePos === undefined) return { text, file };
+  return { text, file, line: lineNum, column: linePos - 1 };
+}
+
+/** @return the file path for an absolute module path, e.g. _root/util */
+function moduleFile(
+  modulePath: string,
+  build: WgslBuild,
+  rootDir: string
+): string | undefined {
+  const rootRelative = rootRelativePath(modulePath);
+  if (rootRelative === undefined) return undefined;
+  const rootPath = "./" + rootRelative;
+  const fileName = Object.keys(build.wgsl).find(
+    (f) => f === rootPath || noSuffix(f) === rootPath
+  );
+  return fileName && path.resolve(rootDir, fileName);
+}
+
+function zip<A, B>(as: A[], bs: B[]): [A, B][] {
+  return as.map((a, i) => [a, bs[i]]);
+}
@@ -0,0 +1,96 @@
+import path from "node:path";
+import type { Plugin, Rollup } from "vite";
+import {
+  BuildMessage,
+  buildMessages,
+  moduleName,
+  wgslBuild,
+  wgslModuleJs,
+} from "./wgslBuild.js";
+
+export interface WgslPluginOptions {
+  /** base directory of the WGSL/WESL files (default: the vite root, or the current directory) */
+  rootDir?: string;
+
+  /** runtime params for linking, e.g. for #if conditions */
+  defines?: Record<string, any>;
+}
+
+/** import suffixes handled by the plugin */
+const linkQuery = "?link";
+const registryQuery = "?registry";
+
+/**
+ * A Vite or Rollup plugin for importing wgsl/wesl files.
+ *
+ * `import shader from "./main.wesl?link"` imports the linked wgsl text.
+ * `import input from "./main.wesl?registry"` imports the wgsl sources and package bundles
+ * to link main.wesl at runtime, e.g. `new ModuleRegistry(input).link("./main")`.
+ *
+ * Problems found while linking are reported as build errors,
+ * and changes to the wgsl files trigger a rebuild (or hot update in Vite).
+ */
+export function wgslPlugin(options: WgslPluginOptions = {}): Plugin {
+  const { defines } = options;
+  let rootDir = path.resolve(options.rootDir ?? ".");
+
+  return {
+    name: "wgsl-linker",
+
+    configResolved(config) {
+      if (!options.rootDir) rootDir = config.root;
+    },
+
+    async resolveId(source, importer) {
+      const query = pluginQuery(source);
+      if (!query) return null;
+      const filePath = source.slice(0, -query.length);
+      const resolved = await this.resolve(filePath, importer, {
+        skipSelf: true,
+      });
+      return resolved ? resolved.id + query : null;
+    },
+
+    async load(id) {
+      const query = pluginQuery(id);
+      if (!query) return null;
+      const filePath = id.slice(0, -query.length);
+      const entry = moduleName(filePath, rootDir);
+      if (!entry) {
+        this.error(
+          `wgsl file ${filePath} is outside of the root dir: ${rootDir}`
+        );
+      }
+
+      const built = await wgslBuild({ rootDir, entries: [entry], defines });
+      built.files.forEach((f) => this.addWatchFile(f));
+      reportMessages(this, buildMessages(built, rootDir));
+      return wgslModuleJs(built, entry, query === linkQuery);
+    },
+  };
+}
+
+function pluginQuery(id: string): string | undefined {
+  return [linkQuery, registryQuery].find((q) => id.endsWith(q));
+}
+
+/** report warnings as build warnings, and fail the build if there are errors */
+function reportMessages(
+  ctx: Rollup.PluginContext,
+  messages: ReturnType<typeof buildMessages>
+): void {
+  const { errors, warnings } = messages;
+  warnings.forEach((w) => ctx.warn(rollupLog(w)));
+  if (errors.length) {
+    const message = errors.map((e) => e.text).join("\n");
+    ctx.error({ ...rollupLog(errors[0]), message });
+  }
+}
+
+/** @return a rollup log message, positioned in the wgsl file if possible */
+function rollupLog(message: BuildMessage): Rollup.RollupLog {
+  const { text, file, line, column } = message;
+  if (!file) return { message: text };
+  if (line === undefined) return { message: text, id: file };
+  return { message: text, id: file, loc: { file, line, column: column! } };
+}